@@ -1,5 +1,7 @@
 const express = require('express');
+const fs = require('fs');
 const path = require('path');
+const { pathToFileURL } = require('url');
 
 const app = express();
 const PORT = process.env.PORT || 3000;
@@ -18,6 +20,31 @@ app.get('/api', (req, res) => {
   });
 });
 
+// Server-rendered comparison links BEFORE static files (built by npm run build:ssr).
+// Falls through to the plain app when the bundle is missing or the link can't be rendered.
+app.get('/compare', async (req, res, next) => {
+  try {
+    const distDir = path.join(__dirname, 'dist');
+    const { renderComparisonPage } = await import(pathToFileURL(path.join(distDir, 'ssr', 'entry-server.mjs')).href);
+    const [template, csvText, scoringProfile] = await Promise.all(
+      ['index.html', 'insurance-data.csv', 'scoring-profile.json'].map(file => fs.promises.readFile(path.join(distDir, file), 'utf8'))
+    );
+    const page = renderComparisonPage({
+      template,
+      url: `${req.protocol}://${req.get('host')}${req.originalUrl}`,
+      csvText,
+      scoringProfileJson: JSON.parse(scoringProfile)
+    });
+    if (!page) {
+      return next();
+    }
+    res.set('Content-Type', 'text/html').send(page);
+  } catch (error) {
+    console.error('Error rendering comparison page:', error);
+    next();
+  }
+});
+
 // Serve static files with proper MIME types
 app.use(express.static(path.join(__dirname, 'dist'), {
   setHeaders: (res, filePath) => {
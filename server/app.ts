@@ -0,0 +1,121 @@
+import express from 'express';
+import cors from 'cors';
+import helmet from 'helmet';
+import insuranceRoutes from './routes/insurance.js';
+import adminRoutes from './routes/admin.js';
+import path from 'path';
+import { sendError } from './utils/apiErrors.js';
+import { LOGO_DIR } from './utils/providerLogos.js';
+import { API_OPERATIONS, OPENAPI_SPEC_PATH, getRouteName } from './openapi/operations.js';
+
+// The Express app, without starting it: server/index.ts listens, the contract check runs it in-process
+
+const app = express();
+const API_EXPLORER_DIR = path.join(process.cwd(), 'server', 'openapi', 'explorer');
+
+// Security middleware
+app.use(helmet());
+
+// CORS configuration
+app.use(cors({
+  origin: process.env.NODE_ENV === 'production' 
+    ? ['https://your-domain.com'] // Replace with your actual domain
+    : ['http://localhost:5173', 'http://localhost:5174'], // Vite dev server
+  credentials: true,
+  methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+  allowedHeaders: ['Content-Type', 'Authorization']
+}));
+
+// Body parsing middleware
+app.use(express.json({ limit: '10mb' }));
+app.use(express.urlencoded({ extended: true, limit: '10mb' }));
+
+// Health check endpoint
+app.get('/health', (_req, res) => {
+  res.json({ 
+    status: 'healthy', 
+    timestamp: new Date().toISOString(),
+    version: '1.0.0'
+  });
+});
+
+// API overview; the full reference is the OpenAPI spec
+app.get('/api', (_req, res) => {
+  res.json({
+    name: 'Car Insurance Comparison API',
+    version: '1.0.0',
+    description: 'API for comparing car insurance products and getting quotes',
+    openapi: '/api/openapi.json',
+    explorer: '/api/docs',
+    endpoints: Object.fromEntries(API_OPERATIONS.map(operation => [getRouteName(operation), operation.summary])),
+    errors: {
+      format: '{ success: false, code, error, fieldErrors? } (fieldErrors maps each invalid field path, e.g. "vehicle.year", to a message)',
+      codes: {
+        validation_failed: '400 - fields missing, invalid or not recognised; see fieldErrors',
+        invalid_json: '400 - body is not valid JSON',
+        unknown_dataset: '400 - datasetVersion is not kept by the server',
+        unauthorized: '401 - missing or wrong admin token',
+        not_found: '404 - unknown product or endpoint',
+        unsupported_region: '422 - postcode is in a territory that is not priced yet',
+        no_premium_data: '422 - no premiums for the state, gender and age',
+        dataset_rejected: '422 - uploaded or reloaded CSV failed validation',
+        rate_limited: '429 - too many requests',
+        internal_error: '500',
+        admin_disabled: '503 - ADMIN_TOKEN is not set'
+      }
+    }
+  });
+});
+
+// OpenAPI 3.1 spec generated from server/types/api.ts (npm run generate:openapi)
+app.get('/api/openapi.json', (_req, res) => {
+  res.sendFile(OPENAPI_SPEC_PATH);
+});
+
+// Interactive explorer for the spec, served from this repo (no CDN)
+app.use('/api/docs', express.static(API_EXPLORER_DIR));
+
+// Provider logos, so the logoUrl values from /api/insurance/providers and /products also resolve here
+app.use('/logos', express.static(LOGO_DIR));
+
+// API routes
+app.use('/api/insurance', insuranceRoutes);
+app.use('/api/admin', adminRoutes);
+
+// Catch-all for unknown routes
+app.use('*', (_req, res) => {
+  res.status(404).json({
+    success: false,
+    code: 'not_found',
+    error: 'Endpoint not found',
+    availableEndpoints: [
+      'GET /health',
+      'GET /api',
+      'GET /api/openapi.json',
+      'GET /api/docs',
+      ...API_OPERATIONS.map(getRouteName)
+    ]
+  });
+});
+
+// Global error handler
+app.use((err: any, _req: express.Request, res: express.Response, _next: express.NextFunction) => {
+  // Malformed JSON bodies are the client's mistake, not a server error
+  if (err.type === 'entity.parse.failed') {
+    return sendError(res, 400, 'invalid_json', 'Request body is not valid JSON');
+  }
+
+  console.error('Global error handler:', err);
+  
+  // Don't leak error details in production
+  const isDevelopment = process.env.NODE_ENV !== 'production';
+  
+  res.status(err.status || 500).json({
+    success: false,
+    code: 'internal_error',
+    error: isDevelopment ? err.message : 'Internal server error',
+    ...(isDevelopment && { stack: err.stack })
+  });
+});
+
+export default app;
@@ -0,0 +1,169 @@
+// Interactive explorer for /api/openapi.json: lists each operation with its parameters, request body
+// and response schemas, and sends requests from the page. Plain browser script, no build step.
+
+const SPEC_URL = '/api/openapi.json';
+
+const element = (tag, attributes = {}, children = []) => {
+  const node = document.createElement(tag);
+  Object.entries(attributes).forEach(([name, value]) => {
+    if (name === 'text') {
+      node.textContent = value;
+    } else {
+      node.setAttribute(name, value);
+    }
+  });
+  children.forEach(child => node.append(child));
+  return node;
+};
+
+const formatJson = value => JSON.stringify(value, null, 2);
+
+// Inline $refs (one level per use) so a schema can be read without jumping around
+const expandSchema = (schema, components, seen = []) => {
+  if (!schema || typeof schema !== 'object') {
+    return schema;
+  }
+  if (schema.$ref) {
+    const name = schema.$ref.replace('#/components/schemas/', '');
+    return seen.includes(name) ? { $ref: schema.$ref } : expandSchema(components[name], components, [...seen, name]);
+  }
+  return Object.fromEntries(Object.entries(schema).map(([key, value]) => [
+    key,
+    Array.isArray(value) ? value.map(item => expandSchema(item, components, seen)) : expandSchema(value, components, seen),
+  ]));
+};
+
+const renderParameterInput = parameter => {
+  const id = `${parameter.in}-${parameter.name}-${Math.random().toString(36).slice(2, 8)}`;
+  const options = parameter.schema.enum;
+  const input = options
+    ? element('select', { id }, [element('option', { value: '', text: '' }), ...options.map(option => element('option', { value: option, text: option }))])
+    : element('input', { id, type: 'text' });
+  input.dataset.name = parameter.name;
+  input.dataset.in = parameter.in;
+  const hint = `${parameter.in}${parameter.required ? ', required' : ''}${parameter.description ? ` - ${parameter.description}` : ''}`;
+  return [element('label', { for: id }, [parameter.name, ' ', element('span', { class: 'hint', text: `(${hint})` })]), input];
+};
+
+const sendRequest = async (path, method, operation, form, output) => {
+  const inputs = [...form.querySelectorAll('[data-in]')];
+  let url = path;
+  const query = new URLSearchParams();
+  inputs.forEach(input => {
+    if (input.dataset.in === 'path') {
+      url = url.replace(`{${input.dataset.name}}`, encodeURIComponent(input.value));
+    } else if (input.value) {
+      query.set(input.dataset.name, input.value);
+    }
+  });
+
+  const headers = {};
+  const token = document.getElementById('admin-token').value;
+  if (operation.security && token) {
+    headers.Authorization = `Bearer ${token}`;
+  }
+  const bodyInput = form.querySelector('textarea');
+  const contentType = operation.requestBody && Object.keys(operation.requestBody.content)[0];
+  if (contentType) {
+    headers['Content-Type'] = contentType;
+  }
+
+  output.replaceChildren(element('p', { class: 'status', text: 'Sending...' }));
+  try {
+    const response = await fetch(`${url}${query.toString() ? `?${query}` : ''}`, {
+      method: method.toUpperCase(),
+      headers,
+      body: bodyInput ? bodyInput.value : undefined,
+    });
+    const text = await response.text();
+    let body = text;
+    try {
+      body = formatJson(JSON.parse(text));
+    } catch {
+      // Not JSON; show as is
+    }
+    output.replaceChildren(
+      element('p', { class: `status${response.ok ? '' : ' error'}`, text: `${response.status} ${response.statusText}` }),
+      element('pre', { text: body })
+    );
+  } catch (error) {
+    output.replaceChildren(element('p', { class: 'status error', text: `Request failed: ${error.message}` }));
+  }
+};
+
+const renderOperation = (path, method, operation, components) => {
+  const form = element('form');
+  const requestExamples = Object.values(operation.requestBody?.content['application/json']?.examples ?? {});
+
+  (operation.parameters ?? []).forEach(parameter => form.append(...renderParameterInput(parameter)));
+
+  if (operation.requestBody) {
+    const id = `${operation.operationId}-body`;
+    const textarea = element('textarea', { id });
+    textarea.value = requestExamples.length ? formatJson(requestExamples[0].value) : '';
+    form.append(element('label', { for: id, text: 'Request body' }));
+    if (requestExamples.length > 1) {
+      const picker = element('select', {}, requestExamples.map((example, index) => element('option', { value: index, text: example.summary })));
+      picker.addEventListener('change', () => { textarea.value = formatJson(requestExamples[picker.value].value); });
+      form.append(picker);
+    }
+    form.append(textarea);
+  }
+
+  const output = element('div');
+  form.append(element('button', { type: 'submit', text: 'Send request' }));
+  form.addEventListener('submit', event => {
+    event.preventDefault();
+    sendRequest(path, method, operation, form, output);
+  });
+
+  const schemas = [];
+  if (operation.requestBody?.content['application/json']) {
+    schemas.push(element('label', { text: 'Request schema' }), element('pre', { text: formatJson(expandSchema(operation.requestBody.content['application/json'].schema, components)) }));
+  }
+  Object.entries(operation.responses).forEach(([status, response]) => {
+    schemas.push(
+      element('label', { text: `${status} - ${response.description}` }),
+      element('pre', { text: formatJson(expandSchema(response.content['application/json'].schema, components)) })
+    );
+  });
+
+  return element('details', { class: 'operation' }, [
+    element('summary', {}, [
+      element('span', { class: `method ${method}`, text: method.toUpperCase() }),
+      element('code', { text: path }),
+      element('span', { text: operation.summary }),
+    ]),
+    element('div', { class: 'body' }, [
+      ...(operation.description ? [element('p', { text: operation.description })] : []),
+      form,
+      output,
+      element('details', {}, [element('summary', { text: 'Schemas' }), ...schemas]),
+    ]),
+  ]);
+};
+
+const renderSpec = spec => {
+  document.title = `${spec.info.title} - API Explorer`;
+  document.getElementById('title').textContent = `${spec.info.title} ${spec.info.version}`;
+  document.getElementById('description').textContent = spec.info.description;
+
+  const byTag = new Map();
+  Object.entries(spec.paths).forEach(([path, methods]) => {
+    Object.entries(methods).forEach(([method, operation]) => {
+      const tag = operation.tags[0];
+      byTag.set(tag, [...(byTag.get(tag) ?? []), renderOperation(path, method, operation, spec.components.schemas)]);
+    });
+  });
+
+  document.getElementById('operations').replaceChildren(
+    ...[...byTag].flatMap(([tag, operations]) => [element('h2', { text: tag }), ...operations])
+  );
+};
+
+fetch(SPEC_URL)
+  .then(response => response.json())
+  .then(renderSpec)
+  .catch(error => {
+    document.getElementById('operations').replaceChildren(element('p', { class: 'status error', text: `Could not load ${SPEC_URL}: ${error.message}` }));
+  });
@@ -0,0 +1,272 @@
+import path from 'path';
+import ts from 'typescript';
+import { JsonSchema, OpenApiDocument, OpenApiOperation, OpenApiParameter } from '../types/openapi.js';
+import { API_OPERATIONS, ApiOperation } from './operations.js';
+
+// Builds the OpenAPI document from the request and response types in server/types/api.ts, read with
+// the TypeScript compiler. Named interfaces and aliases become components; property descriptions come
+// from the comments next to each field. The result is committed as server/openapi/openapi.json.
+
+const API_TYPES_PATH = path.join(process.cwd(), 'server', 'types', 'api.ts');
+
+const schemaRef = (name: string): JsonSchema => ({ $ref: `#/components/schemas/${name}` });
+
+// The comment on the same line as a declaration, or the comment lines directly above it
+function getComment(node: ts.Node | undefined): string | undefined {
+  if (!node) {
+    return undefined;
+  }
+  const text = node.getSourceFile().getFullText();
+  const lineComment = (range: ts.CommentRange) => range.kind === ts.SyntaxKind.SingleLineCommentTrivia;
+  const commentText = (range: ts.CommentRange) => text.slice(range.pos + 2, range.end).trim();
+
+  const trailing = (ts.getTrailingCommentRanges(text, node.end) ?? []).find(lineComment);
+  if (trailing) {
+    return commentText(trailing);
+  }
+
+  // Walk up from the declaration, stopping at a blank line
+  const leading: ts.CommentRange[] = [];
+  let blockEnd = node.getStart();
+  for (const range of (ts.getLeadingCommentRanges(text, node.getFullStart()) ?? []).reverse()) {
+    if (!lineComment(range) || /\n\s*\n/.test(text.slice(range.end, blockEnd))) {
+      break;
+    }
+    leading.unshift(range);
+    blockEnd = range.pos;
+  }
+  return leading.length ? leading.map(commentText).join(' ') : undefined;
+}
+
+function withDescription(schema: JsonSchema, description: string | undefined): JsonSchema {
+  if (!description) {
+    return schema;
+  }
+  return { ...schema, description }; // OpenAPI 3.1 allows a description next to $ref
+}
+
+function createSchemaConverter(checker: ts.TypeChecker) {
+  const components: Record<string, JsonSchema> = {};
+  const componentTypes = new Map<string, ts.Type>();
+
+  // Named, non-generic types declared in this repo become components
+  function getComponentName(type: ts.Type): { name: string; declaration: ts.Declaration } | null {
+    const isInterface = (type.flags & ts.TypeFlags.Object) !== 0
+      && ((type as ts.ObjectType).objectFlags & ts.ObjectFlags.Interface) !== 0;
+    const symbol = type.aliasSymbol && !type.aliasTypeArguments ? type.aliasSymbol : isInterface ? type.symbol : undefined;
+    const declaration = symbol?.declarations?.[0];
+    if (!symbol || !declaration || declaration.getSourceFile().fileName.includes('node_modules')) {
+      return null;
+    }
+    return { name: symbol.name, declaration };
+  }
+
+  function toSchema(type: ts.Type): JsonSchema {
+    const component = getComponentName(type);
+    if (!component) {
+      return describeType(type);
+    }
+
+    const existing = componentTypes.get(component.name);
+    if (existing && existing !== type) {
+      throw new Error(`Two types are named ${component.name}; rename one so the OpenAPI components stay unique`);
+    }
+    if (!existing) {
+      componentTypes.set(component.name, type);
+      components[component.name] = {}; // Placeholder while a self-referencing type is described
+      components[component.name] = withDescription(describeType(type), getComment(component.declaration));
+    }
+    return schemaRef(component.name);
+  }
+
+  function describeType(type: ts.Type): JsonSchema {
+    if (type.flags & (ts.TypeFlags.Any | ts.TypeFlags.Unknown)) {
+      return {};
+    }
+    if (type.flags & ts.TypeFlags.String) {
+      return { type: 'string' };
+    }
+    if (type.flags & ts.TypeFlags.Number) {
+      return { type: 'number' };
+    }
+    if (type.flags & ts.TypeFlags.Boolean) {
+      return { type: 'boolean' };
+    }
+    if (type.flags & ts.TypeFlags.Null) {
+      return { type: 'null' };
+    }
+    if (type.isStringLiteral()) {
+      return { type: 'string', enum: [type.value] };
+    }
+    if (type.isNumberLiteral()) {
+      return { type: 'number', enum: [type.value] };
+    }
+    if (type.flags & ts.TypeFlags.BooleanLiteral) {
+      return { type: 'boolean', enum: [checker.typeToString(type) === 'true'] };
+    }
+    if (type.isUnion()) {
+      return describeUnion(type);
+    }
+    if (checker.isArrayType(type)) {
+      return { type: 'array', items: toSchema(checker.getTypeArguments(type as ts.TypeReference)[0]) };
+    }
+    if (type.flags & ts.TypeFlags.Object || type.isIntersection()) {
+      return describeObject(type);
+    }
+    throw new Error(`Can't describe ${checker.typeToString(type)} in the OpenAPI spec`);
+  }
+
+  // Literal members are merged into one enum; undefined (from optional fields) is dropped
+  function describeUnion(type: ts.UnionType): JsonSchema {
+    const members = type.types.filter(member => !(member.flags & ts.TypeFlags.Undefined));
+    const literals = members.filter(member => member.isStringLiteral()) as ts.StringLiteralType[];
+    const hasBooleanLiterals = members.some(member => member.flags & ts.TypeFlags.BooleanLiteral);
+    const schemas = [
+      ...(literals.length ? [{ type: 'string', enum: literals.map(literal => literal.value) } as JsonSchema] : []),
+      ...(hasBooleanLiterals ? [{ type: 'boolean' } as JsonSchema] : []),
+      ...members
+        .filter(member => !member.isStringLiteral() && !(member.flags & ts.TypeFlags.BooleanLiteral))
+        .map(toSchema),
+    ];
+    return schemas.length === 1 ? schemas[0] : { anyOf: schemas };
+  }
+
+  function describeObject(type: ts.Type): JsonSchema {
+    const properties: Record<string, JsonSchema> = {};
+    const required: string[] = [];
+    checker.getPropertiesOfType(type).forEach(property => {
+      const declaration = property.valueDeclaration ?? property.declarations?.[0];
+      properties[property.name] = withDescription(toSchema(checker.getTypeOfSymbol(property)), getComment(declaration));
+      if (!(property.flags & ts.SymbolFlags.Optional)) {
+        required.push(property.name);
+      }
+    });
+
+    const indexInfo = checker.getIndexInfosOfType(type).find(info => info.keyType.flags & ts.TypeFlags.String);
+    return {
+      type: 'object',
+      ...(Object.keys(properties).length && { properties }),
+      ...(required.length && { required }),
+      additionalProperties: indexInfo ? toSchema(indexInfo.type) : false,
+    };
+  }
+
+  return { components, toSchema, describeType };
+}
+
+function loadApiTypes() {
+  const config = ts.readConfigFile(path.join(process.cwd(), 'tsconfig.json'), ts.sys.readFile);
+  const { options } = ts.parseJsonConfigFileContent(config.config, ts.sys, process.cwd());
+  const program = ts.createProgram([API_TYPES_PATH], options);
+  const checker = program.getTypeChecker();
+  const sourceFile = program.getSourceFile(API_TYPES_PATH);
+  const moduleSymbol = sourceFile && checker.getSymbolAtLocation(sourceFile);
+  if (!moduleSymbol) {
+    throw new Error(`Could not read ${API_TYPES_PATH}`);
+  }
+
+  const exports = new Map(checker.getExportsOfModule(moduleSymbol).map(symbol => [symbol.name, symbol]));
+  const getType = (name: string): ts.Type => {
+    const symbol = exports.get(name);
+    if (!symbol) {
+      throw new Error(`${name} is not exported from server/types/api.ts`);
+    }
+    return checker.getDeclaredTypeOfSymbol(symbol);
+  };
+  return { checker, getType };
+}
+
+// Split an ApiResponse<...> union into its success and error outcomes
+function splitResponseType(checker: ts.TypeChecker, type: ts.Type, name: string): { success: ts.Type; error: ts.Type } {
+  const outcomes = type.isUnion() ? type.types : [type];
+  const findOutcome = (success: boolean) => outcomes.find(outcome => {
+    const property = checker.getPropertyOfType(outcome, 'success');
+    return property && checker.typeToString(checker.getTypeOfSymbol(property)) === String(success);
+  });
+  const success = findOutcome(true);
+  const error = findOutcome(false);
+  if (!success || !error) {
+    throw new Error(`${name} must be an ApiResponse<...> with success and error outcomes`);
+  }
+  return { success, error };
+}
+
+function describeOperation(
+  operation: ApiOperation,
+  converter: ReturnType<typeof createSchemaConverter>,
+  checker: ts.TypeChecker,
+  getType: (name: string) => ts.Type
+): OpenApiOperation {
+  const json = (schema: JsonSchema, examples?: OpenApiOperation['responses'][string]['content'][string]['examples']) => ({
+    'application/json': { schema, ...(examples && { examples }) },
+  });
+
+  const parameters: OpenApiParameter[] = Object.entries(operation.pathParams ?? {}).map(([name, description]) => ({
+    name, in: 'path', required: true, description, schema: { type: 'string' },
+  }));
+  if (operation.queryType) {
+    const query = converter.describeType(getType(operation.queryType));
+    Object.entries(query.properties ?? {}).forEach(([name, { description, ...schema }]) => {
+      parameters.push({ name, in: 'query', required: query.required?.includes(name) ?? false, ...(description && { description }), schema });
+    });
+  }
+
+  const bodyExamples = Object.fromEntries(operation.examples
+    .filter(example => example.body !== undefined)
+    .map(example => [example.name.replace(/\W+/g, '_'), { summary: example.name, value: example.body }]));
+  const requestBody = operation.csvBody
+    ? { required: true, content: { 'text/csv': { schema: { type: 'string' } as JsonSchema } } }
+    : operation.requestType
+      ? { required: true, content: json(converter.toSchema(getType(operation.requestType)), bodyExamples) }
+      : undefined;
+
+  const outcomes = splitResponseType(checker, getType(operation.responseType), operation.responseType);
+  const errorSchema = converter.toSchema(outcomes.error);
+  const responses: OpenApiOperation['responses'] = {
+    [operation.successStatus]: { description: 'Success', content: json(converter.toSchema(outcomes.success)) },
+  };
+  Object.entries(operation.errors).forEach(([status, codes]) => {
+    responses[status] = { description: `Error: ${codes!.join(', ')}`, content: json(errorSchema) };
+  });
+
+  return {
+    operationId: operation.operationId,
+    summary: operation.summary,
+    ...(operation.description && { description: operation.description }),
+    tags: [operation.tag],
+    ...(operation.admin && { security: [{ adminToken: [] }] }),
+    ...(parameters.length && { parameters }),
+    ...(requestBody && { requestBody }),
+    responses,
+  };
+}
+
+export function buildOpenApiSpec(): OpenApiDocument {
+  const { checker, getType } = loadApiTypes();
+  const converter = createSchemaConverter(checker);
+
+  const paths: OpenApiDocument['paths'] = {};
+  API_OPERATIONS.forEach(operation => {
+    paths[operation.path] = {
+      ...paths[operation.path],
+      [operation.method]: describeOperation(operation, converter, checker, getType),
+    };
+  });
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Car Insurance Comparison API',
+      version: '1.0.0',
+      description: 'Compare car insurance products and get quotes. Errors use one envelope, '
+        + '{ success: false, code, error, fieldErrors? }; see ApiErrorCode for the codes.',
+    },
+    paths,
+    components: {
+      schemas: Object.fromEntries(Object.entries(converter.components).sort(([a], [b]) => a.localeCompare(b))),
+      securitySchemes: {
+        adminToken: { type: 'http', scheme: 'bearer', description: 'ADMIN_TOKEN set on the server' },
+      },
+    },
+  };
+}
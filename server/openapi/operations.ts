@@ -0,0 +1,301 @@
+import path from 'path';
+import { ApiErrorCode } from '../types/api.js';
+
+// Every API route, for the OpenAPI spec (npm run generate:openapi) and the contract check
+// (npm run check:contract). Request and response shapes are named by their types in
+// server/types/api.ts, which the generator reads, so they aren't repeated here.
+
+// Generated spec, committed so the server doesn't need the TypeScript compiler at runtime
+export const OPENAPI_SPEC_PATH = path.join(process.cwd(), 'server', 'openapi', 'openapi.json');
+
+export interface ApiExample {
+  name: string;
+  pathParams?: Record<string, string>;
+  query?: Record<string, string>;
+  body?: unknown;
+  status: number; // Status the contract check expects
+}
+
+export interface ApiOperation {
+  method: 'get' | 'post';
+  path: string; // OpenAPI style, e.g. /api/insurance/product/{id}
+  operationId: string;
+  summary: string;
+  description?: string;
+  tag: 'Insurance' | 'Admin';
+  admin?: boolean; // Needs the ADMIN_TOKEN bearer token
+  pathParams?: Record<string, string>; // Name → description
+  queryType?: string;
+  requestType?: string; // JSON body type
+  csvBody?: boolean; // Body is a CSV file rather than JSON
+  responseType: string; // ApiResponse<...> alias
+  successStatus: 200 | 201;
+  errors: Partial<Record<number, ApiErrorCode[]>>; // Status → codes it can carry
+  examples: ApiExample[];
+}
+
+const RATE_LIMITED = { 429: ['rate_limited'] } satisfies ApiOperation['errors'];
+
+// A product that is quoted for every segment in the bundled data
+const EXAMPLE_PRODUCT_ID = '006faa0d-72e4-4aa1-9176-a52bd78f8bde';
+// Its provider
+const EXAMPLE_PROVIDER_ID = '53153d90-d361-4671-a761-3d2e85bc0caa';
+
+export const API_OPERATIONS: ApiOperation[] = [
+  {
+    method: 'post',
+    path: '/api/insurance/compare',
+    operationId: 'compareInsurance',
+    summary: 'Compare insurance products based on user criteria',
+    description: 'Ranks every matching product with the same scoring as the quiz and returns one page of them '
+      + '(10 by default; see page, pageSize, sortBy, sortDirection and fields), the sponsored products among all matches '
+      + 'and a shareable comparisonUrl.',
+    tag: 'Insurance',
+    requestType: 'CompareInsuranceRequest',
+    responseType: 'CompareInsuranceResponse',
+    successStatus: 200,
+    errors: {
+      400: ['validation_failed', 'invalid_json', 'unknown_dataset'],
+      422: ['unsupported_region', 'no_premium_data'],
+      ...RATE_LIMITED,
+      500: ['internal_error'],
+    },
+    examples: [
+      {
+        name: 'By age group',
+        body: { state: 'NSW', ageGroup: '< 35 years', gender: 'Male', priority: 'Price', selectedFeatures: ['STORM', 'WINDSCREEN'] },
+        status: 200,
+      },
+      {
+        name: 'By postcode, exact age and vehicle',
+        body: {
+          postcode: '3000',
+          age: 42,
+          gender: 'Female',
+          priority: 'Features',
+          selectedFeatures: ['NEW_CAR_REPLACEMENT'],
+          vehicle: { make: 'Toyota', model: 'Corolla', year: 2022, value: 28000 },
+          annualKm: 8000,
+          paymentFrequency: 'Monthly',
+        },
+        status: 200,
+      },
+      {
+        name: 'Second page sorted by cover score, trimmed',
+        body: {
+          state: 'QLD',
+          ageGroup: '< 65 years',
+          gender: 'Other',
+          priority: 'Features',
+          page: 2,
+          pageSize: 5,
+          sortBy: 'coverScore',
+          sortDirection: 'desc',
+          fields: ['name', 'priceRating', 'coverScore', 'dynamicFinderScore'],
+        },
+        status: 200,
+      },
+      { name: 'Invalid fields', body: { state: 'XX', ageGroup: 'old', gender: 'Male', priority: 'Price', selectedFeatures: ['FOO'] }, status: 400 },
+      { name: 'Territory postcode', body: { postcode: '0800', ageGroup: '< 35 years', gender: 'Male', priority: 'Price' }, status: 422 },
+    ],
+  },
+  {
+    method: 'post',
+    path: '/api/insurance/compare/batch',
+    operationId: 'compareInsuranceBatch',
+    summary: 'Compare insurance products for many profiles',
+    description: 'Runs /compare for 1 to 100 profiles in one request, against one dataset. Each result is the body /compare '
+      + 'would have returned for that profile, with its status; an invalid profile fails only its own result. '
+      + 'Counts as one request against the rate limit.',
+    tag: 'Insurance',
+    requestType: 'CompareBatchRequest',
+    responseType: 'CompareBatchResponse',
+    successStatus: 200,
+    errors: { 400: ['validation_failed', 'invalid_json'], ...RATE_LIMITED, 500: ['internal_error'] },
+    examples: [
+      {
+        name: 'Profiles with one invalid',
+        body: {
+          profiles: [
+            { state: 'NSW', ageGroup: '< 35 years', gender: 'Male', priority: 'Price', fields: ['name', 'priceRating'] },
+            { state: 'NSW', age: 52, gender: 'Female', priority: 'Features', pageSize: 3 },
+            { postcode: '3000', ageGroup: '< 25 years', gender: 'Other', priority: 'Price', selectedFeatures: ['STORM'] },
+            { state: 'XX', ageGroup: '< 35 years', gender: 'Male', priority: 'Price' },
+          ],
+        },
+        status: 200,
+      },
+      { name: 'No profiles', body: { profiles: [] }, status: 400 },
+    ],
+  },
+  {
+    method: 'post',
+    path: '/api/insurance/quick-quote',
+    operationId: 'getQuickQuote',
+    summary: 'Get a quick insurance quote',
+    description: 'Products for a state, age group and gender, 5 per page by default, with average ratings over all matches '
+      + '(null when nothing matches). Takes the same page, pageSize, sortBy, sortDirection and fields as /compare.',
+    tag: 'Insurance',
+    requestType: 'QuickQuoteRequest',
+    responseType: 'QuickQuoteResponse',
+    successStatus: 200,
+    errors: { 400: ['validation_failed', 'invalid_json'], 422: ['no_premium_data'], ...RATE_LIMITED, 500: ['internal_error'] },
+    examples: [
+      { name: 'Quick quote', body: { state: 'VIC', ageGroup: '< 25 years', gender: 'Female' }, status: 200 },
+      { name: 'Missing gender', body: { state: 'VIC', ageGroup: '< 25 years' }, status: 400 },
+      { name: 'Page size too large', body: { state: 'VIC', ageGroup: '< 25 years', gender: 'Female', pageSize: 500 }, status: 400 },
+    ],
+  },
+  {
+    method: 'get',
+    path: '/api/insurance/providers',
+    operationId: 'listProviders',
+    summary: 'List providers with their logo URLs',
+    description: 'Providers that have at least one product matching the filters, with the matching products. '
+      + 'No customer profile is needed.',
+    tag: 'Insurance',
+    queryType: 'CatalogueQuery',
+    responseType: 'CatalogueProvidersResponse',
+    successStatus: 200,
+    errors: { 400: ['validation_failed', 'unknown_dataset'], ...RATE_LIMITED, 500: ['internal_error'] },
+    examples: [
+      { name: 'All providers', status: 200 },
+      { name: 'Providers with storm and windscreen cover', query: { features: 'STORM,WINDSCREEN' }, status: 200 },
+      { name: 'Unknown feature', query: { features: 'STORM,FOO' }, status: 400 },
+    ],
+  },
+  {
+    method: 'get',
+    path: '/api/insurance/products',
+    operationId: 'listProducts',
+    summary: 'List the product catalogue',
+    description: 'Every product with its features, benefit limits and provider logo URL, by name. '
+      + 'These details are the same for every customer, so there are no prices or ratings; use /compare for those.',
+    tag: 'Insurance',
+    queryType: 'CatalogueProductsQuery',
+    responseType: 'CatalogueProductsResponse',
+    successStatus: 200,
+    errors: { 400: ['validation_failed', 'unknown_dataset'], ...RATE_LIMITED, 500: ['internal_error'] },
+    examples: [
+      {
+        name: 'Comprehensive products with roadside assistance',
+        query: { insuranceType: 'comprehensive', features: 'ROADSIDE_ASSISTANCE', includeOptionalCover: 'true' },
+        status: 200,
+      },
+      { name: 'Products of one provider', query: { providerId: EXAMPLE_PROVIDER_ID }, status: 200 },
+      { name: 'Invalid includeOptionalCover', query: { includeOptionalCover: 'yes' }, status: 400 },
+    ],
+  },
+  {
+    method: 'get',
+    path: '/api/insurance/products/{id}',
+    operationId: 'getCatalogueProduct',
+    summary: 'Get the catalogue entry for a product',
+    description: 'The product\'s features, benefit limits and provider logo URL, without a customer profile.',
+    tag: 'Insurance',
+    pathParams: { id: 'Product ID' },
+    queryType: 'CatalogueProductQuery',
+    responseType: 'CatalogueProductResponse',
+    successStatus: 200,
+    errors: { 400: ['validation_failed', 'unknown_dataset'], 404: ['not_found'], ...RATE_LIMITED, 500: ['internal_error'] },
+    examples: [
+      { name: 'Catalogue entry', pathParams: { id: EXAMPLE_PRODUCT_ID }, status: 200 },
+      { name: 'Unknown product', pathParams: { id: 'unknown-product' }, status: 404 },
+    ],
+  },
+  {
+    method: 'get',
+    path: '/api/insurance/product/{id}',
+    operationId: 'getProductDetails',
+    summary: 'Get details for a specific insurance product',
+    description: 'The product priced and rated for a customer profile, with three alternatives. '
+      + 'GET /api/insurance/products/{id} has the details that don\'t depend on the profile.',
+    tag: 'Insurance',
+    pathParams: { id: 'Product ID' },
+    queryType: 'ProductDetailsQuery',
+    responseType: 'ProductDetailsResponse',
+    successStatus: 200,
+    errors: { 400: ['validation_failed'], 404: ['not_found'], 422: ['no_premium_data'], ...RATE_LIMITED, 500: ['internal_error'] },
+    examples: [
+      { name: 'Product details', pathParams: { id: EXAMPLE_PRODUCT_ID }, query: { state: 'NSW', ageGroup: '< 35 years', gender: 'Male' }, status: 200 },
+      { name: 'Unknown product', pathParams: { id: 'unknown-product' }, query: { state: 'NSW', ageGroup: '< 35 years', gender: 'Male' }, status: 404 },
+    ],
+  },
+  {
+    method: 'get',
+    path: '/api/insurance/product/{id}/history',
+    operationId: 'getProductHistory',
+    summary: 'Year-over-year premiums, % change and rank movement per state/gender/age segment',
+    tag: 'Insurance',
+    pathParams: { id: 'Product ID' },
+    queryType: 'ProductHistoryQuery',
+    responseType: 'ProductHistoryResponse',
+    successStatus: 200,
+    errors: { 400: ['validation_failed', 'unknown_dataset'], 404: ['not_found'], ...RATE_LIMITED, 500: ['internal_error'] },
+    examples: [
+      { name: 'History for one state', pathParams: { id: EXAMPLE_PRODUCT_ID }, query: { state: 'QLD' }, status: 200 },
+    ],
+  },
+  {
+    method: 'post',
+    path: '/api/insurance/ai-agent',
+    operationId: 'askAgent',
+    summary: 'AI agent endpoint for natural language queries',
+    tag: 'Insurance',
+    requestType: 'AIAgentRequest',
+    responseType: 'AIAgentResponse',
+    successStatus: 200,
+    errors: { 400: ['validation_failed', 'invalid_json'], ...RATE_LIMITED, 500: ['internal_error'] },
+    examples: [
+      {
+        name: 'Find the cheapest',
+        body: { query: 'Find me the cheapest car insurance in NSW', context: { state: 'NSW', ageGroup: '< 35 years', gender: 'Male', priority: 'Price' } },
+        status: 200,
+      },
+    ],
+  },
+  {
+    method: 'get',
+    path: '/api/admin/datasets',
+    operationId: 'listDatasets',
+    summary: 'List loaded dataset versions, newest first',
+    tag: 'Admin',
+    admin: true,
+    responseType: 'DatasetListResponse',
+    successStatus: 200,
+    errors: { 401: ['unauthorized'], 503: ['admin_disabled'] },
+    examples: [{ name: 'List datasets', status: 200 }],
+  },
+  {
+    method: 'post',
+    path: '/api/admin/datasets',
+    operationId: 'uploadDataset',
+    summary: 'Upload a new insurance CSV',
+    description: 'Replaces public/insurance-data.csv only if the file passes validation; otherwise the validation report is returned and nothing changes.',
+    tag: 'Admin',
+    admin: true,
+    csvBody: true,
+    responseType: 'DatasetUploadResponse',
+    successStatus: 201,
+    errors: { 400: ['validation_failed'], 401: ['unauthorized'], 422: ['dataset_rejected'], 500: ['internal_error'], 503: ['admin_disabled'] },
+    // Only the rejected case: a successful upload would overwrite the data file
+    examples: [{ name: 'Empty file', body: '', status: 400 }],
+  },
+  {
+    method: 'post',
+    path: '/api/admin/datasets/reload',
+    operationId: 'reloadDataset',
+    summary: 'Reload public/insurance-data.csv from disk',
+    tag: 'Admin',
+    admin: true,
+    responseType: 'DatasetUploadResponse',
+    successStatus: 200,
+    errors: { 401: ['unauthorized'], 422: ['dataset_rejected'], 500: ['internal_error'], 503: ['admin_disabled'] },
+    examples: [{ name: 'Reload', status: 200 }],
+  },
+];
+
+// Express-style route, e.g. "GET /api/insurance/product/:id"
+export function getRouteName(operation: ApiOperation): string {
+  return `${operation.method.toUpperCase()} ${operation.path.replace(/\{(\w+)\}/g, ':$1')}`;
+}
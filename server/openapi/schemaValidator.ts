@@ -0,0 +1,74 @@
+import { JsonSchema } from '../types/openapi.js';
+
+// Checks a JSON value against the subset of JSON Schema the generated spec uses.
+// Returns one message per mismatch, keyed by path like the API's fieldErrors, e.g. "data.products[0].id".
+
+function describeValue(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  return Array.isArray(value) ? 'array' : typeof value;
+}
+
+function resolveRef(schema: JsonSchema, components: Record<string, JsonSchema>): JsonSchema {
+  if (!schema.$ref) {
+    return schema;
+  }
+  const name = schema.$ref.replace('#/components/schemas/', '');
+  const resolved = components[name];
+  if (!resolved) {
+    throw new Error(`Unknown schema reference ${schema.$ref}`);
+  }
+  return resolved;
+}
+
+export function validateAgainstSchema(
+  value: unknown,
+  schema: JsonSchema,
+  components: Record<string, JsonSchema>,
+  path = 'body'
+): string[] {
+  const resolved = resolveRef(schema, components);
+
+  if (resolved.anyOf) {
+    const attempts = resolved.anyOf.map(option => validateAgainstSchema(value, option, components, path));
+    if (attempts.some(errors => errors.length === 0)) {
+      return [];
+    }
+    // Report the closest option rather than every one
+    return attempts.reduce((closest, errors) => errors.length < closest.length ? errors : closest);
+  }
+
+  const actualType = describeValue(value);
+  if (resolved.type && resolved.type !== actualType) {
+    return [`${path}: expected ${resolved.type}, got ${actualType}`];
+  }
+  if (resolved.enum && !resolved.enum.includes(value as string | number | boolean)) {
+    return [`${path}: ${JSON.stringify(value)} is not one of ${resolved.enum.map(option => JSON.stringify(option)).join(', ')}`];
+  }
+
+  if (resolved.type === 'array' && resolved.items) {
+    const items = resolved.items;
+    return (value as unknown[]).flatMap((item, index) => validateAgainstSchema(item, items, components, `${path}[${index}]`));
+  }
+
+  if (resolved.type === 'object') {
+    const input = value as Record<string, unknown>;
+    const properties = resolved.properties ?? {};
+    const errors = (resolved.required ?? [])
+      .filter(key => input[key] === undefined)
+      .map(key => `${path}.${key}: is required by the spec but missing`);
+
+    Object.entries(input).forEach(([key, propertyValue]) => {
+      const propertySchema = key in properties ? properties[key] : resolved.additionalProperties;
+      if (propertySchema === false || propertySchema === undefined) {
+        errors.push(`${path}.${key}: is not in the spec`);
+      } else if (propertyValue !== undefined) {
+        errors.push(...validateAgainstSchema(propertyValue, propertySchema, components, `${path}.${key}`));
+      }
+    });
+    return errors;
+  }
+
+  return [];
+}
@@ -0,0 +1,102 @@
+import { timingSafeEqual } from 'crypto';
+import express from 'express';
+import { DatasetListResponse, DatasetUploadResponse } from '../types/api.js';
+import { DataValidationReport, validateInsuranceCsv } from '../../src/utils/csvValidator.js';
+import { getDataset, listDatasets, loadDatasetFromFile, readDatasetFile, uploadDataset } from '../utils/datasetStore.js';
+import { sendError, sendValidationError } from '../utils/apiErrors.js';
+
+const router = express.Router();
+
+// Compared in constant time, so response timing doesn't reveal how much of a guess was right
+function isAdminToken(authorization: string | undefined, adminToken: string): boolean {
+  const given = Buffer.from(authorization ?? '');
+  const expected = Buffer.from(`Bearer ${adminToken}`);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+// 422 with the validation report, for a CSV that can't become the dataset
+function sendDatasetRejected(res: express.Response, report: DataValidationReport): express.Response {
+  const response: DatasetUploadResponse = {
+    success: false,
+    code: 'dataset_rejected',
+    error: `Dataset rejected: ${report.errorCount} validation errors`,
+    validationReport: report
+  };
+  return res.status(422).json(response);
+}
+
+// Admin endpoints are only enabled when ADMIN_TOKEN is set, and require it as a bearer token
+router.use((req, res, next) => {
+  const adminToken = process.env.ADMIN_TOKEN;
+  if (!adminToken) {
+    return sendError(res, 503, 'admin_disabled', 'Admin API is disabled (ADMIN_TOKEN is not set)');
+  }
+  if (!isAdminToken(req.headers.authorization, adminToken)) {
+    return sendError(res, 401, 'unauthorized', 'Invalid or missing admin token');
+  }
+  next();
+});
+
+// GET /api/admin/datasets
+// List the datasets kept in memory, newest first
+router.get('/datasets', (_req, res) => {
+  const response: DatasetListResponse = {
+    success: true,
+    data: {
+      currentVersion: getDataset()?.version ?? null,
+      datasets: listDatasets()
+    }
+  };
+  res.json(response);
+});
+
+// POST /api/admin/datasets
+// Upload a new insurance CSV (Content-Type: text/csv). It replaces the current dataset
+// only if it passes validation; otherwise the report is returned and nothing changes.
+router.post('/datasets', express.text({ type: ['text/csv', 'text/plain'], limit: '10mb' }), async (req, res) => {
+  try {
+    if (typeof req.body !== 'string' || req.body.trim() === '') {
+      return sendValidationError(res, { body: 'must be the CSV file sent as text/csv' });
+    }
+
+    const report = validateInsuranceCsv(req.body);
+    if (!report.isValid) {
+      return sendDatasetRejected(res, report);
+    }
+
+    const response: DatasetUploadResponse = {
+      success: true,
+      data: { dataset: await uploadDataset(req.body) },
+      validationReport: report
+    };
+    res.status(201).json(response);
+  } catch (error) {
+    console.error('Error in /datasets upload endpoint:', error);
+    sendError(res, 500, 'internal_error', 'Internal server error while uploading dataset');
+  }
+});
+
+// POST /api/admin/datasets/reload
+// Re-read public/insurance-data.csv, e.g. when file watching is disabled. As with an upload,
+// an invalid file is rejected with its report and the current dataset stays in service.
+router.post('/datasets/reload', async (_req, res) => {
+  try {
+    const csvContent = await readDatasetFile();
+    const report = validateInsuranceCsv(csvContent);
+    if (!report.isValid) {
+      return sendDatasetRejected(res, report);
+    }
+
+    const response: DatasetUploadResponse = {
+      success: true,
+      data: { dataset: await loadDatasetFromFile('reload', csvContent) },
+      validationReport: report
+    };
+    res.json(response);
+  } catch (error) {
+    console.error('Error in /datasets/reload endpoint:', error);
+    sendError(res, 500, 'internal_error', 'Internal server error while reloading dataset');
+  }
+});
+
+export default router;
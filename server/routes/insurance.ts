@@ -1,20 +1,44 @@
 import express from 'express';
 import rateLimit from 'express-rate-limit';
-import { AustralianState, AgeGroup, Gender } from '../../src/types/index.js';
 import { 
-  CompareInsuranceRequest, 
+  ApiErrorResponse,
+  CatalogueProductResponse,
+  CatalogueProductsResponse,
+  CatalogueProvidersResponse,
+  CompareBatchResponse,
+  CompareBatchResult,
+  CompareInsuranceRequest,
   CompareInsuranceResponse, 
-  QuickQuoteRequest, 
   QuickQuoteResponse,
   ProductDetailsResponse,
-  AIAgentRequest,
+  ProductHistoryResponse,
   AIAgentResponse
 } from '../types/api.js';
+import {
+  aiAgentRequestSchema,
+  catalogueProductQuerySchema,
+  catalogueProductsQuerySchema,
+  catalogueQuerySchema,
+  compareBatchRequestSchema,
+  productDetailsQuerySchema,
+  productHistoryQuerySchema,
+  quickQuoteRequestSchema
+} from '../types/schemas.js';
+import { parseRequest } from '../utils/validation.js';
+import { apiError, sendError, sendFailure, sendValidationError } from '../utils/apiErrors.js';
+import { ComparisonResult, createComparisonSession, runComparison } from '../utils/comparison.js';
+import { listProducts } from '../utils/productListing.js';
+import { getCatalogueProduct, getCatalogueProducts, groupByProvider } from '../utils/catalogue.js';
 import { 
   getFilteredAndSortedProductsServer, 
+  getMissingPremiumData,
+  loadInsuranceDataServer,
   isSponsoredProduct, 
   getProviderUrls 
 } from '../utils/insuranceLogic.js';
+import { getDataset } from '../utils/datasetStore.js';
+import { getProductPriceHistory } from '../../src/utils/priceHistory.js';
+import { AGE_GROUP_BANDS, getGenderCodes } from '../../src/utils/priceMatrix.js';
 
 const router = express.Router();
 
@@ -22,7 +46,11 @@ const router = express.Router();
 const limiter = rateLimit({
   windowMs: 15 * 60 * 1000, // 15 minutes
   max: 100, // limit each IP to 100 requests per windowMs
-  message: 'Too many requests from this IP, please try again later.'
+  message: {
+    success: false,
+    code: 'rate_limited',
+    error: 'Too many requests from this IP, please try again later.'
+  } satisfies ApiErrorResponse
 });
 
 router.use(limiter);
@@ -31,77 +59,63 @@ router.use(limiter);
 // Main endpoint for insurance comparison
 router.post('/compare', async (req, res) => {
   try {
-    const request: CompareInsuranceRequest = req.body;
-    
-    // Validate required fields
-    if (!request.state || !request.ageGroup || !request.gender || !request.priority) {
-      return res.status(400).json({
-        success: false,
-        error: 'Missing required fields: state, ageGroup, gender, priority'
-      });
+    const result = await runComparison(req.body, createComparisonSession());
+    if (!result.ok) {
+      return sendFailure(res, result.failure);
     }
 
-    // Get comparison results
-    const sortBy = request.priority === 'Price' ? 'priceRating' : 'finderScore';
-    const selectedFeatures = request.selectedFeatures || [];
-    
-    const products = await getFilteredAndSortedProductsServer(
-      request.state,
-      request.gender,
-      request.ageGroup,
-      sortBy,
-      selectedFeatures,
-      request.priority
-    );
+    const response: CompareInsuranceResponse = {
+      success: true,
+      data: result.data
+    };
 
-    // Get top pick
-    const topPick = products[0];
-    
-    // Get sponsored products with redirect URLs
-    const providerUrls = getProviderUrls();
-    const sponsoredProducts = products
-      .filter(product => isSponsoredProduct(product.name))
-      .map(product => ({
-        name: product.name,
-        redirectUrl: providerUrls[product.name] || '#',
-        dynamicFinderScore: product.dynamicFinderScore
-      }));
-
-    // Create comparison URL for easy sharing
-    const comparisonParams = new URLSearchParams({
-      state: request.state,
-      age: request.ageGroup,
-      gender: request.gender,
-      priority: request.priority,
-      features: selectedFeatures.join(',')
-    });
-    const comparisonUrl = `/compare?${comparisonParams.toString()}`;
+    res.json(response);
+  } catch (error) {
+    console.error('Error in /compare endpoint:', error);
+    sendError(res, 500, 'internal_error', 'Internal server error while comparing insurance products');
+  }
+});
 
-    const response: CompareInsuranceResponse = {
+// POST /api/insurance/compare/batch
+// Runs /compare for many profiles in one request. Each profile gets the result /compare would
+// have returned (with its status), so one invalid profile doesn't fail the rest.
+router.post('/compare/batch', async (req, res) => {
+  try {
+    const parsed = parseRequest(compareBatchRequestSchema, req.body);
+    if (!parsed.ok) {
+      return sendValidationError(res, parsed.fieldErrors);
+    }
+
+    // One session: profiles share the pinned dataset and its price ratings
+    const session = createComparisonSession();
+    const results: CompareBatchResult[] = [];
+    for (const profile of parsed.value.profiles) {
+      let result: ComparisonResult;
+      try {
+        result = await runComparison(profile, session);
+      } catch (error) {
+        console.error('Error in /compare/batch profile:', error);
+        result = { ok: false, failure: apiError(500, 'internal_error', 'Internal server error while comparing insurance products') };
+      }
+      results.push(result.ok
+        ? { success: true, data: result.data, status: 200 }
+        : { ...result.failure.body, status: result.failure.status });
+    }
+
+    const succeeded = results.filter(result => result.success).length;
+    const response: CompareBatchResponse = {
       success: true,
       data: {
-        topPick,
-        products: products.slice(0, 10), // Return top 10
-        totalFound: products.length,
-        criteria: {
-          state: request.state,
-          ageGroup: request.ageGroup,
-          gender: request.gender,
-          priority: request.priority,
-          selectedFeatures
-        },
-        sponsoredProducts,
-        comparisonUrl
+        results,
+        succeeded,
+        failed: results.length - succeeded
       }
     };
 
     res.json(response);
   } catch (error) {
-    console.error('Error in /compare endpoint:', error);
-    res.status(500).json({
-      success: false,
-      error: 'Internal server error while comparing insurance products'
-    });
+    console.error('Error in /compare/batch endpoint:', error);
+    sendError(res, 500, 'internal_error', 'Internal server error while comparing insurance products');
   }
 });
 
@@ -109,13 +123,15 @@ router.post('/compare', async (req, res) => {
 // Simplified endpoint for quick quotes
 router.post('/quick-quote', async (req, res) => {
   try {
-    const request: QuickQuoteRequest = req.body;
-    
-    if (!request.state || !request.ageGroup || !request.gender) {
-      return res.status(400).json({
-        success: false,
-        error: 'Missing required fields: state, ageGroup, gender'
-      });
+    const parsed = parseRequest(quickQuoteRequestSchema, req.body);
+    if (!parsed.ok) {
+      return sendValidationError(res, parsed.fieldErrors);
+    }
+    const request = parsed.value;
+
+    const missingPremiumData = await getMissingPremiumData(request.state, request.gender, request.ageGroup);
+    if (missingPremiumData) {
+      return sendError(res, 422, 'no_premium_data', missingPremiumData);
     }
 
     const priority = request.priority || 'Price';
@@ -128,56 +144,158 @@ router.post('/quick-quote', async (req, res) => {
       priority
     );
 
-    // Calculate averages
-    const averagePriceRating = products.reduce((sum, p) => sum + p.priceRating, 0) / products.length;
-    const averageFeatureScore = products.reduce((sum, p) => sum + p.averageFeatureScore, 0) / products.length;
+    const { products: page, pagination, sort } = listProducts(products, request, priority, 5);
+
+    // Calculate averages over every match (null rather than NaN when nothing matches)
+    const average = (values: number[]) => values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+    const averagePriceRating = average(products.map(p => p.priceRating));
+    const averageFeatureScore = average(products.map(p => p.averageFeatureScore));
 
     const response: QuickQuoteResponse = {
       success: true,
       data: {
-        recommendedProducts: products.slice(0, 5),
+        recommendedProducts: page,
         averagePriceRating,
         averageFeatureScore,
-        totalProducts: products.length
+        totalProducts: products.length,
+        pagination,
+        sort
       }
     };
 
     res.json(response);
   } catch (error) {
     console.error('Error in /quick-quote endpoint:', error);
-    res.status(500).json({
-      success: false,
-      error: 'Internal server error while generating quick quote'
-    });
+    sendError(res, 500, 'internal_error', 'Internal server error while generating quick quote');
+  }
+});
+
+// GET /api/insurance/providers
+// Providers with their logo, filtered by the insurance type and features of their products
+router.get('/providers', async (req, res) => {
+  try {
+    const parsed = parseRequest(catalogueQuerySchema, req.query);
+    if (!parsed.ok) {
+      return sendValidationError(res, parsed.fieldErrors);
+    }
+    const query = parsed.value;
+
+    const dataset = getDataset(query.datasetVersion);
+    if (!dataset) {
+      return sendError(res, 400, 'unknown_dataset', `Unknown datasetVersion "${query.datasetVersion}"`,
+        { datasetVersion: 'is not a dataset version kept by the server' });
+    }
+
+    const products = await getCatalogueProducts(await loadInsuranceDataServer(dataset.version), query);
+
+    const response: CatalogueProvidersResponse = {
+      success: true,
+      data: {
+        providers: groupByProvider(products),
+        datasetVersion: dataset.version
+      }
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error in /providers endpoint:', error);
+    sendError(res, 500, 'internal_error', 'Internal server error while listing providers');
+  }
+});
+
+// GET /api/insurance/products
+// Product catalogue: the details that don't depend on the customer (no prices or ratings)
+router.get('/products', async (req, res) => {
+  try {
+    const parsed = parseRequest(catalogueProductsQuerySchema, req.query);
+    if (!parsed.ok) {
+      return sendValidationError(res, parsed.fieldErrors);
+    }
+    const query = parsed.value;
+
+    const dataset = getDataset(query.datasetVersion);
+    if (!dataset) {
+      return sendError(res, 400, 'unknown_dataset', `Unknown datasetVersion "${query.datasetVersion}"`,
+        { datasetVersion: 'is not a dataset version kept by the server' });
+    }
+
+    const products = await getCatalogueProducts(await loadInsuranceDataServer(dataset.version), query);
+
+    const response: CatalogueProductsResponse = {
+      success: true,
+      data: {
+        products,
+        totalProducts: products.length,
+        datasetVersion: dataset.version
+      }
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error in /products endpoint:', error);
+    sendError(res, 500, 'internal_error', 'Internal server error while listing products');
+  }
+});
+
+// GET /api/insurance/products/:id
+// Catalogue entry for one product, without a customer profile
+router.get('/products/:id', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const parsed = parseRequest(catalogueProductQuerySchema, req.query);
+    if (!parsed.ok) {
+      return sendValidationError(res, parsed.fieldErrors);
+    }
+    const { datasetVersion } = parsed.value;
+
+    const dataset = getDataset(datasetVersion);
+    if (!dataset) {
+      return sendError(res, 400, 'unknown_dataset', `Unknown datasetVersion "${datasetVersion}"`,
+        { datasetVersion: 'is not a dataset version kept by the server' });
+    }
+
+    const product = await getCatalogueProduct(await loadInsuranceDataServer(dataset.version), id);
+    if (!product) {
+      return sendError(res, 404, 'not_found', `Product "${id}" not found`);
+    }
+
+    const response: CatalogueProductResponse = {
+      success: true,
+      data: {
+        product,
+        datasetVersion: dataset.version
+      }
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error in /products/:id endpoint:', error);
+    sendError(res, 500, 'internal_error', 'Internal server error while fetching the product');
   }
 });
 
 // GET /api/insurance/product/:id
-// Get details for a specific product
+// Get details for a specific product, priced for a customer profile
+// (GET /products/:id has the details that don't need one)
 router.get('/product/:id', async (req, res) => {
   try {
     const { id } = req.params;
-    const { state, ageGroup, gender } = req.query;
+    const parsed = parseRequest(productDetailsQuerySchema, req.query);
+    if (!parsed.ok) {
+      return sendValidationError(res, parsed.fieldErrors);
+    }
+    const { state, ageGroup, gender } = parsed.value;
 
-    if (!state || !ageGroup || !gender) {
-      return res.status(400).json({
-        success: false,
-        error: 'Missing required query parameters: state, ageGroup, gender'
-      });
+    const missingPremiumData = await getMissingPremiumData(state, gender, ageGroup);
+    if (missingPremiumData) {
+      return sendError(res, 422, 'no_premium_data', missingPremiumData);
     }
 
-    const products = await getFilteredAndSortedProductsServer(
-      state as AustralianState,
-      gender as Gender,
-      ageGroup as AgeGroup
-    );
+    const products = await getFilteredAndSortedProductsServer(state, gender, ageGroup);
 
     const product = products.find(p => p.id === id);
     if (!product) {
-      return res.status(404).json({
-        success: false,
-        error: 'Product not found'
-      });
+      return sendError(res, 404, 'not_found', `Product "${id}" not found`);
     }
 
     // Get alternatives (other top products excluding this one)
@@ -201,10 +319,53 @@ router.get('/product/:id', async (req, res) => {
     res.json(response);
   } catch (error) {
     console.error('Error in /product endpoint:', error);
-    res.status(500).json({
-      success: false,
-      error: 'Internal server error while fetching product details'
-    });
+    sendError(res, 500, 'internal_error', 'Internal server error while fetching product details');
+  }
+});
+
+// GET /api/insurance/product/:id/history
+// Year-over-year premiums, percentage change and rank movement for each segment
+// (state / gender / age band). Optional state, gender and ageGroup query parameters narrow the segments.
+router.get('/product/:id/history', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const parsed = parseRequest(productHistoryQuerySchema, req.query);
+    if (!parsed.ok) {
+      return sendValidationError(res, parsed.fieldErrors);
+    }
+    const { state, gender, ageGroup, datasetVersion } = parsed.value;
+
+    const dataset = getDataset(datasetVersion);
+    if (!dataset) {
+      return sendError(res, 400, 'unknown_dataset', `Unknown datasetVersion "${datasetVersion}"`,
+        { datasetVersion: 'is not a dataset version kept by the server' });
+    }
+
+    const products = await loadInsuranceDataServer(dataset.version);
+    const history = getProductPriceHistory(products, id);
+    if (!history) {
+      return sendError(res, 404, 'not_found', `Product "${id}" not found`);
+    }
+
+    const segments = history.segments.filter(segment =>
+      (!state || segment.state === state)
+      && (!gender || getGenderCodes(gender).includes(segment.gender))
+      && (!ageGroup || segment.ageBand === AGE_GROUP_BANDS[ageGroup])
+    );
+
+    const response: ProductHistoryResponse = {
+      success: true,
+      data: {
+        ...history,
+        segments,
+        datasetVersion: dataset.version
+      }
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error in /product/:id/history endpoint:', error);
+    sendError(res, 500, 'internal_error', 'Internal server error while fetching product price history');
   }
 });
 
@@ -212,14 +373,11 @@ router.get('/product/:id', async (req, res) => {
 // Endpoint for AI agent interactions
 router.post('/ai-agent', async (req, res) => {
   try {
-    const request: AIAgentRequest = req.body;
-    
-    if (!request.query) {
-      return res.status(400).json({
-        success: false,
-        error: 'Missing required field: query'
-      });
+    const parsed = parseRequest(aiAgentRequestSchema, req.body);
+    if (!parsed.ok) {
+      return sendValidationError(res, parsed.fieldErrors);
     }
+    const request = parsed.value;
 
     // Simple intent detection (in a real app, you'd use NLP)
     const query = request.query.toLowerCase();
@@ -288,10 +446,7 @@ router.post('/ai-agent', async (req, res) => {
     res.json(response);
   } catch (error) {
     console.error('Error in /ai-agent endpoint:', error);
-    res.status(500).json({
-      success: false,
-      error: 'Internal server error while processing AI request'
-    });
+    sendError(res, 500, 'internal_error', 'Internal server error while processing AI request');
   }
 });
 
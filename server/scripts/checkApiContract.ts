@@ -0,0 +1,94 @@
+import fs from 'fs/promises';
+import { AddressInfo } from 'net';
+import express from 'express';
+import app from '../app.js';
+import insuranceRoutes from '../routes/insurance.js';
+import adminRoutes from '../routes/admin.js';
+import { loadInsuranceDataServer } from '../utils/insuranceLogic.js';
+import { buildOpenApiSpec } from '../openapi/generateSpec.js';
+import { validateAgainstSchema } from '../openapi/schemaValidator.js';
+import { API_OPERATIONS, ApiExample, ApiOperation, OPENAPI_SPEC_PATH, getRouteName } from '../openapi/operations.js';
+import { OpenApiDocument } from '../types/openapi.js';
+
+// Usage: npm run check:contract
+// Fails (exit code 1) when server/openapi/openapi.json is out of date with server/types/api.ts, when a
+// route isn't in the spec, or when a route's actual response to one of its examples doesn't match the spec.
+// Runs the app in-process against public/insurance-data.csv; admin examples never change the data file.
+
+const MOUNTED_ROUTERS: [string, express.Router][] = [['/api/insurance', insuranceRoutes], ['/api/admin', adminRoutes]];
+
+// "GET /api/insurance/compare" for every route registered on the API routers
+function getRegisteredRoutes(): string[] {
+  return MOUNTED_ROUTERS.flatMap(([prefix, router]) => router.stack
+    .filter(layer => layer.route)
+    .flatMap(layer => Object.keys((layer.route as unknown as { methods: Record<string, boolean> }).methods)
+      .map(method => `${method.toUpperCase()} ${prefix}${layer.route!.path}`)));
+}
+
+async function callExample(baseUrl: string, operation: ApiOperation, example: ApiExample): Promise<{ status: number; body: unknown }> {
+  const pathname = operation.path.replace(/\{(\w+)\}/g, (_match, name: string) => encodeURIComponent(example.pathParams?.[name] ?? ''));
+  const query = example.query ? `?${new URLSearchParams(example.query).toString()}` : '';
+  const headers: Record<string, string> = {
+    ...(operation.admin && { Authorization: `Bearer ${process.env.ADMIN_TOKEN}` }),
+    ...(example.body !== undefined && { 'Content-Type': operation.csvBody ? 'text/csv' : 'application/json' }),
+  };
+  const body = example.body === undefined ? undefined : operation.csvBody ? String(example.body) : JSON.stringify(example.body);
+
+  const response = await fetch(`${baseUrl}${pathname}${query}`, { method: operation.method.toUpperCase(), headers, body });
+  return { status: response.status, body: await response.json() };
+}
+
+async function checkExample(baseUrl: string, spec: OpenApiDocument, operation: ApiOperation, example: ApiExample): Promise<string[]> {
+  const { status, body } = await callExample(baseUrl, operation, example);
+  if (status !== example.status) {
+    return [`expected status ${example.status}, got ${status}: ${JSON.stringify(body).slice(0, 300)}`];
+  }
+  const documented = spec.paths[operation.path]?.[operation.method]?.responses[status];
+  if (!documented) {
+    return [`status ${status} is not documented`];
+  }
+  return validateAgainstSchema(body, documented.content['application/json'].schema, spec.components.schemas);
+}
+
+async function main() {
+  const failures: string[] = [];
+
+  const committed = await fs.readFile(OPENAPI_SPEC_PATH, 'utf-8');
+  const spec: OpenApiDocument = JSON.parse(committed);
+  if (committed !== `${JSON.stringify(buildOpenApiSpec(), null, 2)}\n`) {
+    failures.push('server/openapi/openapi.json is out of date; run npm run generate:openapi');
+  }
+
+  const documentedRoutes = new Set(API_OPERATIONS.map(getRouteName));
+  getRegisteredRoutes()
+    .filter(route => !documentedRoutes.has(route))
+    .forEach(route => failures.push(`${route} is not in server/openapi/operations.ts`));
+
+  await loadInsuranceDataServer();
+  process.env.ADMIN_TOKEN ??= 'contract-check';
+  const server = app.listen(0);
+  const baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+  try {
+    for (const operation of API_OPERATIONS) {
+      for (const example of operation.examples) {
+        const errors = await checkExample(baseUrl, spec, operation, example);
+        console.log(`${errors.length ? '❌' : '✅'} ${getRouteName(operation)} - ${example.name}`);
+        failures.push(...errors.map(error => `${getRouteName(operation)} (${example.name}): ${error}`));
+      }
+    }
+  } finally {
+    server.close();
+  }
+
+  if (failures.length) {
+    console.error(`\n${failures.length} contract failure(s):\n${failures.map(failure => `  - ${failure}`).join('\n')}`);
+    process.exit(1);
+  }
+  console.log('\nAll responses match the OpenAPI spec');
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error('Error checking the API contract:', error);
+  process.exit(1);
+});
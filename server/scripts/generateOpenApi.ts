@@ -0,0 +1,17 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { buildOpenApiSpec } from '../openapi/generateSpec.js';
+import { OPENAPI_SPEC_PATH } from '../openapi/operations.js';
+
+// Usage: npm run generate:openapi
+// Regenerates server/openapi/openapi.json after a change to server/types/api.ts or server/openapi/operations.ts.
+async function main() {
+  const spec = buildOpenApiSpec();
+  await fs.writeFile(OPENAPI_SPEC_PATH, `${JSON.stringify(spec, null, 2)}\n`);
+  console.log(`✅ Wrote ${path.relative(process.cwd(), OPENAPI_SPEC_PATH)} (${Object.keys(spec.paths).length} paths, ${Object.keys(spec.components.schemas).length} schemas)`);
+}
+
+main().catch((error) => {
+  console.error('Error generating the OpenAPI spec:', error);
+  process.exit(1);
+});
@@ -0,0 +1,23 @@
+import path from 'path';
+import { validateInsuranceDataServer } from '../utils/insuranceLogic.js';
+import { formatValidationReport } from '../../src/utils/csvValidator.js';
+
+// Usage: npm run validate:data [-- path/to/insurance-data.csv] [--json]
+// Exits with code 1 when the file has errors, so it can gate data updates in CI.
+async function main() {
+  const args = process.argv.slice(2);
+  const asJson = args.includes('--json');
+  const csvArg = args.find(arg => !arg.startsWith('--'));
+
+  const report = csvArg
+    ? await validateInsuranceDataServer(path.resolve(csvArg))
+    : await validateInsuranceDataServer();
+
+  console.log(asJson ? JSON.stringify(report, null, 2) : formatValidationReport(report));
+  process.exit(report.isValid ? 0 : 1);
+}
+
+main().catch((error) => {
+  console.error('Error validating insurance data:', error);
+  process.exit(1);
+});
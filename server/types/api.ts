@@ -1,73 +1,259 @@
-import { AustralianState, AgeGroup, Gender, Priority, SelectedFeature, ProcessedInsuranceProduct } from '../../src/types';
+import { AustralianState, AgeGroup, Gender, Priority, PaymentFrequency, SelectedFeature, SortDirection, ProcessedInsuranceProduct, OtherGenderPricing, PostcodeRegion, VehicleDetails, ValueBasisRecommendation, CoverageLevel, UsageBasedPricing } from '../../src/types';
+import { DataValidationReport } from '../../src/utils/csvValidator';
+import { ProductPriceHistory } from '../../src/utils/priceHistory';
+import { DatasetSummary } from '../utils/datasetStore';
 
-export interface CompareInsuranceRequest {
-  state: AustralianState;
-  ageGroup: AgeGroup;
+// Every endpoint answers { success: true, data } or the error envelope below.
+// Request schemas live in ./schemas.ts and are type-checked against the request types here.
+
+// Machine-readable error codes
+export type ApiErrorCode =
+  | 'validation_failed' // Request fields are missing or invalid; see fieldErrors
+  | 'invalid_json' // Request body isn't valid JSON
+  | 'unsupported_region' // Postcode is in a territory we can't price yet
+  | 'no_premium_data' // No premiums for the requested state, gender and age (e.g. an exact age outside the priced bands)
+  | 'unknown_dataset' // datasetVersion isn't one the server keeps
+  | 'not_found' // Unknown product or endpoint
+  | 'rate_limited'
+  | 'unauthorized' // Missing or wrong admin token
+  | 'admin_disabled' // ADMIN_TOKEN isn't set
+  | 'dataset_rejected' // Uploaded or reloaded CSV failed validation
+  | 'internal_error';
+
+// Messages per request field, keyed by path, e.g. { "vehicle.year": "must be a whole number" }
+export type FieldErrors = Record<string, string>;
+
+export interface ApiErrorResponse {
+  success: false;
+  code: ApiErrorCode;
+  error: string; // Human-readable summary
+  fieldErrors?: FieldErrors;
+}
+
+// Extra holds top-level fields a specific endpoint adds to both outcomes (e.g. a validation report)
+export type ApiResponse<Data, Extra = {}> = ({ success: true; data: Data } | ApiErrorResponse) & Extra;
+
+// Fields the product lists of /compare and /quick-quote can be sorted by
+export const PRODUCT_SORT_FIELDS = ['priceRating', 'averageFeatureScore', 'dynamicFinderScore', 'coverScore'] as const;
+export type ProductSortField = typeof PRODUCT_SORT_FIELDS[number];
+
+export type ProductField = keyof ProcessedInsuranceProduct;
+
+// Every top-level product field, for the fields parameter (a Record, so a new product field must be added here)
+const PRODUCT_FIELD_SET: Record<ProductField, true> = {
+  id: true, name: true, providerId: true, price: true, priceRating: true, priceTrend: true, priceRange: true,
+  annualCost: true, annualCostRating: true, monthlyPayment: true, monthlyEquivalentRating: true,
+  usageBasedPricing: true, usageFit: true, vehicleFit: true, priceScore: true, coverScore: true, finderScore: true,
+  stormCoverageScore: true, windscreenCoverageScore: true, personalEffectsCoverageScore: true,
+  accidentalDamageCoverageScore: true, newCarReplacementScore: true, featureScores: true, featureCoverage: true,
+  benefits: true, averageFeatureScore: true, dynamicFinderScore: true, features: true,
+};
+export const PRODUCT_FIELDS = Object.keys(PRODUCT_FIELD_SET) as ProductField[];
+
+// Paging, sorting and field selection for endpoints that return a product list
+export interface ProductListRequest {
+  page?: number; // From 1 (default 1); a page past the end returns no products
+  pageSize?: number; // Up to 50; defaults to 10 for /compare and 5 for /quick-quote
+  sortBy?: ProductSortField; // Defaults to the ranking for the priority (price rating, or finder score for Features)
+  sortDirection?: SortDirection; // Defaults to desc (best first); ties are broken by product id
+  fields?: ProductField[]; // Only return these product fields (id is always included)
+}
+
+// A product with only the requested fields when fields is given, otherwise complete
+export interface SparseProduct extends Partial<ProcessedInsuranceProduct> {}
+
+export interface Pagination {
+  page: number;
+  pageSize: number;
+  totalItems: number; // Products matching the request, across all pages
+  totalPages: number;
+  hasNextPage: boolean;
+}
+
+export interface ProductListSort {
+  sortBy: ProductSortField | null; // null = ranking for the priority
+  sortDirection: SortDirection;
+}
+
+export interface CompareInsuranceRequest extends ProductListRequest {
+  state?: AustralianState; // Required unless postcode is given
+  postcode?: string; // 4-digit postcode; resolves the state (ACT is priced as NSW, NT is unsupported)
+  ageGroup?: AgeGroup; // Required unless age or dateOfBirth is given
+  age?: number; // Exact age; premiums are interpolated between age bands
+  dateOfBirth?: string; // YYYY-MM-DD, used when age is not given
   gender: Gender;
   priority: Priority;
   selectedFeatures?: SelectedFeature[];
+  includeOptionalCover?: boolean; // Let optional paid add-ons satisfy selected features
+  // Make and model from the bundled vehicle catalogue; value (dollars) is optional
+  vehicle?: { make: string; model: string; year: number; value?: number };
+  annualKm?: number; // Kilometres driven a year; boosts, flags or excludes usage-based policies
+  paymentFrequency?: PaymentFrequency; // Defaults to Annual; Monthly keeps only policies that can be paid monthly
+  datasetVersion?: string; // Rank against an earlier dataset kept by the server (defaults to current)
 }
 
-export interface CompareInsuranceResponse {
-  success: boolean;
-  data?: {
-    topPick: ProcessedInsuranceProduct;
-    products: ProcessedInsuranceProduct[];
-    totalFound: number;
-    criteria: {
-      state: AustralianState;
-      ageGroup: AgeGroup;
-      gender: Gender;
-      priority: Priority;
-      selectedFeatures: SelectedFeature[];
-    };
-    sponsoredProducts: {
-      name: string;
-      redirectUrl: string;
-      dynamicFinderScore: number;
-    }[];
-    comparisonUrl?: string;
+export interface CompareInsuranceData {
+  topPick: SparseProduct | null; // Best ranked product whatever the sort and page; null when nothing matches
+  products: SparseProduct[]; // The requested page
+  totalFound: number; // Same as pagination.totalItems
+  pagination: Pagination;
+  sort: ProductListSort;
+  criteria: {
+    state: AustralianState; // State the premiums are priced for
+    postcode: string | null;
+    region: PostcodeRegion; // Postcode's own state or territory (differs from state for ACT)
+    ageGroup: AgeGroup | null; // Group the exact age falls in (null beyond the last group)
+    age: number | null;
+    gender: Gender;
+    priority: Priority;
+    selectedFeatures: SelectedFeature[];
+    includeOptionalCover: boolean;
+    scoringProfileVersion: string;
+    datasetVersion: string;
+    otherGenderPricing: OtherGenderPricing | null; // How 'Other' was priced; null for Male/Female
+    vehicle: VehicleDetails | null;
+    annualKm: number | null;
+    paymentFrequency: PaymentFrequency;
   };
-  error?: string;
-  message?: string;
+  valueBasisRecommendation: ValueBasisRecommendation | null; // Agreed vs market value advice when a vehicle is given
+  sponsoredProducts: {
+    name: string;
+    redirectUrl: string;
+    dynamicFinderScore: number;
+  }[];
+  comparisonUrl?: string;
+}
+
+export type CompareInsuranceResponse = ApiResponse<CompareInsuranceData>;
+
+// Profiles accepted by one POST /compare/batch call
+export const MAX_BATCH_PROFILES = 100;
+
+export interface CompareBatchRequest {
+  profiles: CompareInsuranceRequest[]; // 1 to 100, each checked on its own so an invalid profile only fails its result
+}
+
+// One profile's outcome: the body /compare would have returned, and the status it would have had
+export type CompareBatchResult = ApiResponse<CompareInsuranceData, { status: number }>;
+
+export interface CompareBatchData {
+  results: CompareBatchResult[]; // In the order of the profiles
+  succeeded: number;
+  failed: number;
 }
 
-export interface QuickQuoteRequest {
+export type CompareBatchResponse = ApiResponse<CompareBatchData>;
+
+export interface QuickQuoteRequest extends ProductListRequest {
   state: AustralianState;
   ageGroup: AgeGroup;
   gender: Gender;
   priority?: Priority;
 }
 
-export interface QuickQuoteResponse {
-  success: boolean;
-  data?: {
-    recommendedProducts: ProcessedInsuranceProduct[];
-    averagePriceRating: number;
-    averageFeatureScore: number;
-    totalProducts: number;
-  };
-  error?: string;
+export interface QuickQuoteData {
+  recommendedProducts: SparseProduct[]; // The requested page
+  averagePriceRating: number | null; // Over all matching products; null when none match
+  averageFeatureScore: number | null;
+  totalProducts: number; // Same as pagination.totalItems
+  pagination: Pagination;
+  sort: ProductListSort;
 }
 
-export interface ProductDetailsRequest {
-  productId: string;
+export type QuickQuoteResponse = ApiResponse<QuickQuoteData>;
+
+// Query string of GET /product/:id (the product id is in the path)
+export interface ProductDetailsQuery {
   state: AustralianState;
   ageGroup: AgeGroup;
   gender: Gender;
 }
 
-export interface ProductDetailsResponse {
-  success: boolean;
-  data?: {
-    product: ProcessedInsuranceProduct;
-    alternatives: ProcessedInsuranceProduct[];
-    redirectUrl?: string;
-    isSponsored: boolean;
-  };
-  error?: string;
+export interface ProductDetailsData {
+  product: ProcessedInsuranceProduct;
+  alternatives: ProcessedInsuranceProduct[];
+  redirectUrl?: string;
+  isSponsored: boolean;
+}
+
+export type ProductDetailsResponse = ApiResponse<ProductDetailsData>;
+
+// Query string of GET /product/:id/history; each filter narrows the segments returned
+export interface ProductHistoryQuery {
+  state?: AustralianState;
+  gender?: Gender;
+  ageGroup?: AgeGroup;
+  datasetVersion?: string;
 }
 
+export type ProductHistoryData = ProductPriceHistory & {
+  datasetVersion: string;
+};
+
+export type ProductHistoryResponse = ApiResponse<ProductHistoryData>;
+
+// Query string of GET /providers and GET /products; each filter narrows the products listed
+export interface CatalogueQuery {
+  insuranceType?: string; // e.g. Comprehensive (not case-sensitive)
+  features?: SelectedFeature[]; // Products that include every one; repeat the parameter or separate with commas
+  includeOptionalCover?: boolean; // Let optional paid add-ons count towards features
+  datasetVersion?: string;
+}
+
+export interface CatalogueProductsQuery extends CatalogueQuery {
+  providerId?: string;
+}
+
+// Query string of GET /products/:id (the product id is in the path)
+export interface CatalogueProductQuery {
+  datasetVersion?: string;
+}
+
+// A product's details that are the same for every customer (no prices or ratings)
+export interface CatalogueProduct {
+  id: string;
+  name: string;
+  providerId: string;
+  insuranceType: string;
+  logoUrl: string | null; // Provider logo, e.g. /logos/<providerId>.png; null when public/logos has none
+  usageBasedPricing: UsageBasedPricing | null;
+  featureCoverage: Record<SelectedFeature, CoverageLevel>;
+  benefits: ProcessedInsuranceProduct['benefits'];
+  features: ProcessedInsuranceProduct['features'];
+}
+
+// Logo URL per provider id, for providers with a file in public/logos (served to the quiz as provider-logos.json)
+export type ProviderLogoUrls = Record<CatalogueProvider['id'], string>;
+
+export interface CatalogueProvider {
+  id: string;
+  logoUrl: string | null;
+  insuranceTypes: string[];
+  products: { id: string; name: string }[]; // The provider's products that match the filters
+}
+
+export interface CatalogueProvidersData {
+  providers: CatalogueProvider[];
+  datasetVersion: string;
+}
+
+export type CatalogueProvidersResponse = ApiResponse<CatalogueProvidersData>;
+
+export interface CatalogueProductsData {
+  products: CatalogueProduct[];
+  totalProducts: number;
+  datasetVersion: string;
+}
+
+export type CatalogueProductsResponse = ApiResponse<CatalogueProductsData>;
+
+export interface CatalogueProductData {
+  product: CatalogueProduct;
+  datasetVersion: string;
+}
+
+export type CatalogueProductResponse = ApiResponse<CatalogueProductData>;
+
 export interface AIAgentRequest {
   query: string;
   context?: {
@@ -80,18 +266,30 @@ export interface AIAgentRequest {
   };
 }
 
-export interface AIAgentResponse {
-  success: boolean;
-  data?: {
-    intent: 'compare' | 'quote' | 'details' | 'help';
-    extractedCriteria?: Partial<CompareInsuranceRequest>;
-    recommendations?: ProcessedInsuranceProduct[];
-    conversationalResponse: string;
-    suggestedActions?: {
-      action: string;
-      url: string;
-      description: string;
-    }[];
-  };
-  error?: string;
-} 
\ No newline at end of file
+export interface AIAgentData {
+  intent: 'compare' | 'quote' | 'details' | 'help';
+  extractedCriteria?: Partial<CompareInsuranceRequest>;
+  recommendations?: ProcessedInsuranceProduct[];
+  conversationalResponse: string;
+  suggestedActions?: {
+    action: string;
+    url: string;
+    description: string;
+  }[];
+}
+
+export type AIAgentResponse = ApiResponse<AIAgentData>;
+
+export interface DatasetListData {
+  currentVersion: string | null;
+  datasets: DatasetSummary[];
+}
+
+export type DatasetListResponse = ApiResponse<DatasetListData>;
+
+export interface DatasetUploadData {
+  dataset: DatasetSummary;
+}
+
+// The validation report explains a rejected upload, and lists warnings for an accepted one
+export type DatasetUploadResponse = ApiResponse<DatasetUploadData, { validationReport?: DataValidationReport }>;
@@ -0,0 +1,139 @@
+import { AGE_GROUPS, AUSTRALIAN_STATES, GENDERS, PAYMENT_FREQUENCIES, PRIORITIES, SELECTED_FEATURES, SORT_DIRECTIONS } from '../../src/types/index.js';
+import {
+  AIAgentRequest,
+  CatalogueProductQuery,
+  CatalogueProductsQuery,
+  CatalogueQuery,
+  CompareBatchRequest,
+  CompareInsuranceRequest,
+  MAX_BATCH_PROFILES,
+  PRODUCT_FIELDS,
+  PRODUCT_SORT_FIELDS,
+  ProductDetailsQuery,
+  ProductHistoryQuery,
+  ProductListRequest,
+  QuickQuoteRequest
+} from './api.js';
+import { MAX_PAGE_SIZE } from '../utils/productListing.js';
+import {
+  ObjectShape,
+  Schema,
+  arraySchema,
+  booleanSchema,
+  numberSchema,
+  objectSchema,
+  oneOf,
+  optional,
+  queryBooleanSchema,
+  queryListSchema,
+  stringSchema,
+  unknownSchema
+} from '../utils/validation.js';
+
+// Runtime schemas for the request types in ./api.ts. Each is typed as Schema<RequestType>, so a field
+// added to or removed from a request type (or made optional) fails type-checking until its schema matches.
+// Allowed values come from the same constants the src/types unions are derived from.
+
+const state = oneOf(AUSTRALIAN_STATES);
+const ageGroup = oneOf(AGE_GROUPS);
+const gender = oneOf(GENDERS);
+const priority = oneOf(PRIORITIES);
+const datasetVersion = stringSchema({ nonEmpty: true });
+
+const productListShape: ObjectShape<ProductListRequest> = {
+  page: optional(numberSchema({ integer: true, min: 1 })),
+  pageSize: optional(numberSchema({ integer: true, min: 1, max: MAX_PAGE_SIZE })),
+  sortBy: optional(oneOf(PRODUCT_SORT_FIELDS)),
+  sortDirection: optional(oneOf(SORT_DIRECTIONS)),
+  fields: optional(arraySchema(oneOf(PRODUCT_FIELDS), { unique: true })),
+};
+
+type VehicleRequest = NonNullable<CompareInsuranceRequest['vehicle']>;
+
+export const compareInsuranceRequestSchema: Schema<CompareInsuranceRequest> = objectSchema<CompareInsuranceRequest>({
+  ...productListShape,
+  state: optional(state),
+  postcode: optional(stringSchema({ pattern: /^\d{4}$/, patternMessage: 'must be a 4-digit postcode' })),
+  ageGroup: optional(ageGroup),
+  age: optional(numberSchema({ integer: true, min: 0 })),
+  dateOfBirth: optional(stringSchema({ pattern: /^\d{4}-\d{2}-\d{2}$/, patternMessage: 'must be a date in YYYY-MM-DD format' })),
+  gender,
+  priority,
+  selectedFeatures: optional(arraySchema(oneOf(SELECTED_FEATURES), { unique: true })),
+  includeOptionalCover: optional(booleanSchema()),
+  vehicle: optional(objectSchema<VehicleRequest>({
+    make: stringSchema({ nonEmpty: true }),
+    model: stringSchema({ nonEmpty: true }),
+    year: numberSchema({ integer: true }),
+    value: optional(numberSchema({ min: 0, exclusiveMin: true })),
+  })),
+  annualKm: optional(numberSchema({ min: 0 })),
+  paymentFrequency: optional(oneOf(PAYMENT_FREQUENCIES)),
+  datasetVersion: optional(datasetVersion),
+}, (request, addError) => {
+  if (!request.state && !request.postcode) {
+    addError('state', 'is required unless postcode is given');
+  }
+  if (!request.ageGroup && request.age === undefined && !request.dateOfBirth) {
+    addError('ageGroup', 'is required unless age or dateOfBirth is given');
+  }
+});
+
+// Profiles are only counted here: each is parsed with compareInsuranceRequestSchema on its own,
+// so one invalid profile fails its own result rather than the batch
+type CompareBatchEnvelope = Record<keyof CompareBatchRequest, unknown[]>;
+
+export const compareBatchRequestSchema: Schema<CompareBatchEnvelope> = objectSchema<CompareBatchEnvelope>({
+  profiles: arraySchema(unknownSchema(), { minItems: 1, maxItems: MAX_BATCH_PROFILES }),
+});
+
+export const quickQuoteRequestSchema: Schema<QuickQuoteRequest> = objectSchema<QuickQuoteRequest>({
+  ...productListShape,
+  state,
+  ageGroup,
+  gender,
+  priority: optional(priority),
+});
+
+export const productDetailsQuerySchema: Schema<ProductDetailsQuery> = objectSchema<ProductDetailsQuery>({
+  state,
+  ageGroup,
+  gender,
+});
+
+export const productHistoryQuerySchema: Schema<ProductHistoryQuery> = objectSchema<ProductHistoryQuery>({
+  state: optional(state),
+  gender: optional(gender),
+  ageGroup: optional(ageGroup),
+  datasetVersion: optional(datasetVersion),
+});
+
+const catalogueShape: ObjectShape<CatalogueQuery> = {
+  insuranceType: optional(stringSchema({ nonEmpty: true })),
+  features: optional(queryListSchema(oneOf(SELECTED_FEATURES), { unique: true })),
+  includeOptionalCover: optional(queryBooleanSchema()),
+  datasetVersion: optional(datasetVersion),
+};
+
+export const catalogueQuerySchema: Schema<CatalogueQuery> = objectSchema<CatalogueQuery>(catalogueShape);
+
+export const catalogueProductsQuerySchema: Schema<CatalogueProductsQuery> = objectSchema<CatalogueProductsQuery>({
+  ...catalogueShape,
+  providerId: optional(stringSchema({ nonEmpty: true })),
+});
+
+export const catalogueProductQuerySchema: Schema<CatalogueProductQuery> = objectSchema<CatalogueProductQuery>({
+  datasetVersion: optional(datasetVersion),
+});
+
+export const aiAgentRequestSchema: Schema<AIAgentRequest> = objectSchema<AIAgentRequest>({
+  query: stringSchema({ nonEmpty: true }),
+  context: optional(objectSchema<NonNullable<AIAgentRequest['context']>>({
+    state: optional(state),
+    ageGroup: optional(ageGroup),
+    gender: optional(gender),
+    priority: optional(priority),
+    budget: optional(stringSchema()),
+    requirements: optional(arraySchema(stringSchema())),
+  })),
+});
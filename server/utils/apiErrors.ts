@@ -0,0 +1,38 @@
+import express from 'express';
+import { ApiErrorCode, ApiErrorResponse, FieldErrors } from '../types/api.js';
+
+// An error response with its status, for code that reports errors without sending them
+// (e.g. one profile of a batch comparison)
+export interface ApiFailure {
+  status: number;
+  body: ApiErrorResponse;
+}
+
+// The error envelope shared by every endpoint (see ApiErrorResponse)
+export function apiError(status: number, code: ApiErrorCode, error: string, fieldErrors?: FieldErrors): ApiFailure {
+  return { status, body: { success: false, code, error, ...(fieldErrors && { fieldErrors }) } };
+}
+
+// 400 for a request that failed its schema or a lookup (postcode, vehicle), summarising each field's message
+export function validationError(fieldErrors: FieldErrors): ApiFailure {
+  const summary = Object.entries(fieldErrors).map(([field, message]) => `${field} ${message}`).join('; ');
+  return apiError(400, 'validation_failed', `Invalid request: ${summary}`, fieldErrors);
+}
+
+export function sendFailure(res: express.Response, failure: ApiFailure): express.Response {
+  return res.status(failure.status).json(failure.body);
+}
+
+export function sendError(
+  res: express.Response,
+  status: number,
+  code: ApiErrorCode,
+  error: string,
+  fieldErrors?: FieldErrors
+): express.Response {
+  return sendFailure(res, apiError(status, code, error, fieldErrors));
+}
+
+export function sendValidationError(res: express.Response, fieldErrors: FieldErrors): express.Response {
+  return sendFailure(res, validationError(fieldErrors));
+}
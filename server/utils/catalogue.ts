@@ -0,0 +1,53 @@
+import { InsuranceProduct } from '../../src/types/index.js';
+import { filterByFeatures, getProductBenefits, getProductFeatureCoverage, getProductFeatures } from '../../src/utils/scoring.js';
+import { getUsageBasedPricing } from '../../src/utils/usage.js';
+import { CatalogueProduct, CatalogueProductsQuery, CatalogueProvider, ProviderLogoUrls } from '../types/api.js';
+import { getProviderLogoUrls } from './providerLogos.js';
+
+function toCatalogueProduct(product: InsuranceProduct, logoUrls: ProviderLogoUrls): CatalogueProduct {
+  const featureCoverage = getProductFeatureCoverage(product);
+  return {
+    id: product.ID,
+    name: product.NAME,
+    providerId: product.PROVIDER_ID,
+    insuranceType: product.INSURANCE_TYPE,
+    logoUrl: logoUrls[product.PROVIDER_ID] ?? null,
+    usageBasedPricing: getUsageBasedPricing(product),
+    featureCoverage,
+    benefits: getProductBenefits(product),
+    features: getProductFeatures(product, featureCoverage),
+  };
+}
+
+// Products matching the filters, by name
+export async function getCatalogueProducts(products: InsuranceProduct[], query: CatalogueProductsQuery): Promise<CatalogueProduct[]> {
+  const logoUrls = await getProviderLogoUrls();
+  const insuranceType = query.insuranceType?.toLowerCase();
+  const matching = products
+    .filter(product => !query.providerId || product.PROVIDER_ID === query.providerId)
+    .filter(product => !insuranceType || product.INSURANCE_TYPE.toLowerCase() === insuranceType)
+    .map(product => toCatalogueProduct(product, logoUrls));
+
+  return filterByFeatures(matching, query.features ?? [], query.includeOptionalCover === true)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function getCatalogueProduct(products: InsuranceProduct[], id: string): Promise<CatalogueProduct | null> {
+  const product = products.find(p => p.ID === id);
+  return product ? toCatalogueProduct(product, await getProviderLogoUrls()) : null;
+}
+
+// Providers of the given products, in the order their first product appears
+export function groupByProvider(products: CatalogueProduct[]): CatalogueProvider[] {
+  const providers = new Map<string, CatalogueProvider>();
+  products.forEach(product => {
+    const provider = providers.get(product.providerId)
+      ?? { id: product.providerId, logoUrl: product.logoUrl, insuranceTypes: [], products: [] };
+    if (!provider.insuranceTypes.includes(product.insuranceType)) {
+      provider.insuranceTypes.push(product.insuranceType);
+    }
+    provider.products.push({ id: product.id, name: product.name });
+    providers.set(product.providerId, provider);
+  });
+  return [...providers.values()];
+}
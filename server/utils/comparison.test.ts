@@ -0,0 +1,62 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { InsuranceProduct } from '../../src/types/index.js';
+import { parseInsuranceCsv } from '../../src/utils/csvLoader.js';
+import { ComparisonResult, ComparisonSession, runComparison } from './comparison.js';
+
+// The bundled data with every female Tasmanian price column removed, as in a new year's file that
+// dropped a segment. Comparisons needing one fail before the dataset store is read.
+const MISSING_COLUMN_PATTERN = /-AUFCI-TAS-F-/;
+
+const withoutColumns = (product: InsuranceProduct): InsuranceProduct =>
+  Object.fromEntries(Object.entries(product).filter(([column]) => !MISSING_COLUMN_PATTERN.test(column))) as InsuranceProduct;
+
+const failureOf = (result: ComparisonResult) => {
+  if (result.ok) {
+    throw new Error('Expected the comparison to fail');
+  }
+  return result.failure;
+};
+
+describe('runComparison without price columns for the profile', () => {
+  let session: ComparisonSession;
+
+  beforeAll(async () => {
+    const csvContent = await fs.readFile(path.join(process.cwd(), 'public', 'insurance-data.csv'), 'utf-8');
+    const products = parseInsuranceCsv(csvContent).products.map(withoutColumns);
+    session = {
+      currentDataset: {
+        version: 'missing-tas-f',
+        loadedAt: new Date().toISOString(),
+        source: 'upload',
+        productCount: products.length,
+        warningCount: 0,
+        products,
+      },
+      contexts: new Map(),
+    };
+  });
+
+  it('answers 422 no_premium_data naming the missing combination', async () => {
+    const failure = failureOf(await runComparison({ state: 'TAS', ageGroup: '< 35 years', gender: 'Female', priority: 'Price' }, session));
+
+    expect(failure.status).toBe(422);
+    expect(failure.body.code).toBe('no_premium_data');
+    expect(failure.body.error).toContain('TAS, Female (F), age band 30');
+  });
+
+  it('fails an exact age the same way', async () => {
+    const failure = failureOf(await runComparison({ state: 'TAS', age: 40, gender: 'Female', priority: 'Price' }, session));
+
+    expect(failure.status).toBe(422);
+    expect(failure.body.code).toBe('no_premium_data');
+  });
+
+  it('fails when a blended "Other" premium needs the missing gender', async () => {
+    const failure = failureOf(await runComparison({ state: 'TAS', ageGroup: '< 65 years', gender: 'Other', priority: 'Features' }, session));
+
+    expect(failure.status).toBe(422);
+    expect(failure.body.error).toContain('TAS, Female (F), age band 60');
+  });
+});
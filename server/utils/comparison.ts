@@ -0,0 +1,198 @@
+import { VehicleDetails } from '../../src/types/index.js';
+import { CompareInsuranceData } from '../types/api.js';
+import { compareInsuranceRequestSchema } from '../types/schemas.js';
+import { parseRequest } from './validation.js';
+import { ApiFailure, apiError, validationError } from './apiErrors.js';
+import { listProducts, rankProducts, selectProductFields } from './productListing.js';
+import { getFilteredAndSortedProductsServer, getMissingPremiumData, loadScoringProfileServer, isSponsoredProduct, getProviderUrls } from './insuranceLogic.js';
+import { Dataset, getDataset } from './datasetStore.js';
+import { RankingContext, createRankingContext } from '../../src/utils/scoring.js';
+import { getAgeCoverage } from '../../src/utils/priceMatrix.js';
+import { getAgeFromDateOfBirth, getAgeGroupForAge } from '../../src/utils/age.js';
+import { resolvePostcode } from '../../src/utils/postcodes.js';
+import { findVehicleModel, getVehicleModelYears } from '../../src/utils/vehicleCatalogue.js';
+import { getValueBasisRecommendation } from '../../src/utils/vehicle.js';
+import { getComparisonUrl } from '../../src/utils/comparisonUrl.js';
+
+export type ComparisonResult = { ok: true; data: CompareInsuranceData } | { ok: false; failure: ApiFailure };
+
+// What comparisons run together share: the dataset used when a profile doesn't name one (pinned
+// up front so a hot-reload part way through can't mix datasets), and a ranking context per dataset
+export interface ComparisonSession {
+  currentDataset: Dataset | undefined;
+  contexts: Map<string, RankingContext>; // By dataset version
+}
+
+export function createComparisonSession(): ComparisonSession {
+  return { currentDataset: getDataset(), contexts: new Map() };
+}
+
+function getRankingContext(session: ComparisonSession, dataset: Dataset): RankingContext {
+  let context = session.contexts.get(dataset.version);
+  if (!context) {
+    context = createRankingContext(dataset.products);
+    session.contexts.set(dataset.version, context);
+  }
+  return context;
+}
+
+const failWith = (failure: ApiFailure): ComparisonResult => ({ ok: false, failure });
+
+// Validate and rank one /compare request body
+export async function runComparison(body: unknown, session: ComparisonSession): Promise<ComparisonResult> {
+  const parsed = parseRequest(compareInsuranceRequestSchema, body);
+  if (!parsed.ok) {
+    return failWith(validationError(parsed.fieldErrors));
+  }
+  const request = parsed.value;
+
+  // A postcode decides the state; territories are priced per the postcode table's fallbacks
+  const location = request.postcode ? resolvePostcode(request.postcode) : null;
+  if (request.postcode && !location) {
+    return failWith(validationError({ postcode: `"${request.postcode}" is not a known postcode` }));
+  }
+  if (location && !location.state) {
+    return failWith(apiError(422, 'unsupported_region',
+      `Postcode ${location.postcode} is in ${location.region}, which is not supported yet`,
+      { postcode: `is in ${location.region}, which is not supported yet` }));
+  }
+  if (location && request.state && location.state !== request.state) {
+    return failWith(validationError({ postcode: `is in ${location.region}, not ${request.state}` }));
+  }
+  const state = location?.state ?? request.state!;
+
+  // An exact age (given directly or from date of birth) takes precedence over the age group
+  const exactAge = request.age !== undefined
+    ? request.age
+    : request.dateOfBirth ? getAgeFromDateOfBirth(request.dateOfBirth) : null;
+  if (request.dateOfBirth && request.age === undefined && exactAge === null) {
+    return failWith(validationError({ dateOfBirth: 'must be a past date' }));
+  }
+
+  // The vehicle must be a catalogue model in a year it was sold
+  let vehicle: VehicleDetails | null = null;
+  if (request.vehicle) {
+    const { make, model, year, value } = request.vehicle;
+    const catalogueModel = findVehicleModel(make, model);
+    if (!catalogueModel) {
+      return failWith(validationError({
+        vehicle: `"${make} ${model}" is not in the vehicle catalogue of supported makes and models`
+      }));
+    }
+    const modelYears = getVehicleModelYears(catalogueModel); // Newest first
+    if (!modelYears.includes(year)) {
+      return failWith(validationError({
+        'vehicle.year': `must be a model year of the ${make} ${model} (${modelYears[modelYears.length - 1]}-${modelYears[0]})`
+      }));
+    }
+    vehicle = { make, model, year, value: value ?? null };
+  }
+
+  const annualKm = request.annualKm ?? null;
+  const paymentFrequency = request.paymentFrequency ?? 'Annual';
+
+  const dataset = request.datasetVersion ? getDataset(request.datasetVersion) : session.currentDataset;
+  if (!dataset) {
+    return failWith(apiError(400, 'unknown_dataset', `Unknown datasetVersion "${request.datasetVersion}"`,
+      { datasetVersion: 'is not a dataset version kept by the server' }));
+  }
+  const context = getRankingContext(session, dataset);
+
+  // Exact ages outside the priced bands get a clear "no data" answer rather than a wrong price
+  if (exactAge !== null) {
+    const coverage = getAgeCoverage(context.priceMatrix, state);
+    if (!coverage || exactAge < coverage.minAge || exactAge > coverage.maxAge) {
+      const covered = coverage ? `. Covered ages: ${coverage.minAge}-${coverage.maxAge}` : '';
+      return failWith(apiError(422, 'no_premium_data', `No premium data for age ${exactAge} in ${state}${covered}`,
+        { [request.age !== undefined ? 'age' : 'dateOfBirth']: `has no premium data in ${state}${covered}` }));
+    }
+  }
+
+  // A dataset without price columns for the profile (e.g. a state or gender missing from a new year)
+  // gets the same "no data" answer, naming the missing combination
+  const missingPremiumData = await getMissingPremiumData(state, request.gender, exactAge ?? request.ageGroup!, context.priceMatrix);
+  if (missingPremiumData) {
+    return failWith(apiError(422, 'no_premium_data', missingPremiumData));
+  }
+
+  // Get comparison results
+  const sortBy = request.priority === 'Price' ? 'priceRating' : 'finderScore';
+  const selectedFeatures = request.selectedFeatures || [];
+  const includeOptionalCover = request.includeOptionalCover === true;
+
+  const products = await getFilteredAndSortedProductsServer(
+    state,
+    request.gender,
+    exactAge ?? request.ageGroup!,
+    sortBy,
+    selectedFeatures,
+    request.priority,
+    { includeOptionalCover, postcode: location?.postcode, vehicle: vehicle ?? undefined, annualKm: annualKm ?? undefined, paymentFrequency },
+    dataset.version,
+    context
+  );
+  const scoringProfile = await loadScoringProfileServer();
+
+  // Top pick by the ranking, then the page the request asks for
+  const topPick = rankProducts(products, request.priority)[0];
+  const { products: page, pagination, sort } = listProducts(products, request, request.priority, 10);
+
+  // Get sponsored products with redirect URLs
+  const providerUrls = getProviderUrls();
+  const sponsoredProducts = products
+    .filter(product => isSponsoredProduct(product.name))
+    .map(product => ({
+      name: product.name,
+      redirectUrl: providerUrls[product.name] || '#',
+      dynamicFinderScore: product.dynamicFinderScore
+    }));
+
+  // Create comparison URL for easy sharing
+  const comparisonUrl = getComparisonUrl({
+    quizData: {
+      state,
+      postcode: location?.postcode ?? null,
+      ageGroup: request.ageGroup ?? null,
+      age: exactAge,
+      gender: request.gender,
+      vehicle,
+      annualKm,
+      paymentFrequency,
+      priority: request.priority,
+      selectedFeatures,
+      includeOptionalCover,
+    },
+    datasetVersion: request.datasetVersion ? dataset.version : null,
+  });
+
+  return {
+    ok: true,
+    data: {
+      topPick: topPick ? selectProductFields(topPick, request.fields) : null,
+      products: page,
+      totalFound: products.length,
+      pagination,
+      sort,
+      criteria: {
+        state,
+        postcode: location?.postcode ?? null,
+        region: location?.region ?? state,
+        ageGroup: exactAge !== null ? getAgeGroupForAge(exactAge) : request.ageGroup!,
+        age: exactAge,
+        gender: request.gender,
+        priority: request.priority,
+        selectedFeatures,
+        includeOptionalCover,
+        scoringProfileVersion: scoringProfile.version,
+        datasetVersion: dataset.version,
+        otherGenderPricing: request.gender === 'Other' ? scoringProfile.otherGenderPricing : null,
+        vehicle,
+        annualKm,
+        paymentFrequency
+      },
+      valueBasisRecommendation: vehicle ? getValueBasisRecommendation(vehicle) : null,
+      sponsoredProducts,
+      comparisonUrl
+    }
+  };
+}
@@ -0,0 +1,194 @@
+import { createHash, randomUUID } from 'crypto';
+import { promises as fs, watch, FSWatcher } from 'fs';
+import path from 'path';
+import { InsuranceProduct } from '../../src/types/index.js';
+import { parseInsuranceCsv } from '../../src/utils/csvLoader.js';
+import { validateInsuranceCsv, formatValidationReport } from '../../src/utils/csvValidator.js';
+
+export const INSURANCE_CSV_PATH = path.join(process.cwd(), 'public', 'insurance-data.csv');
+// The copy the browser quiz fetches in production (server.js serves dist/), kept in step when a build exists
+const SERVED_CSV_PATH = path.join(process.cwd(), 'dist', 'insurance-data.csv');
+// Every kept dataset is also stored here as <version>.csv, so earlier versions survive a restart
+export const DATASET_VERSIONS_DIR = process.env.DATASET_VERSIONS_DIR || path.join(process.cwd(), 'data', 'versions');
+
+// How many datasets stay addressable by version id (current one included)
+const MAX_DATASET_VERSIONS = Number(process.env.DATASET_VERSIONS_KEPT) || 5;
+const WATCH_DEBOUNCE_MS = 500;
+
+export type DatasetSource = 'startup' | 'file-watch' | 'upload' | 'reload' | 'archive'; // archive: kept from an earlier run
+
+export interface DatasetSummary {
+  version: string; // Content hash of the CSV, so the same file always gets the same id
+  loadedAt: string; // For archived datasets, when they were last made current
+  source: DatasetSource;
+  productCount: number;
+  warningCount: number;
+}
+
+export interface Dataset extends DatasetSummary {
+  products: InsuranceProduct[];
+}
+
+// Newest first; datasets[0] is the one served by default
+let datasets: Dataset[] = [];
+
+function toSummary({ products: _products, ...summary }: Dataset): DatasetSummary {
+  return summary;
+}
+
+// Parse and validate a CSV into a dataset without activating it
+function buildDataset(csvContent: string, source: DatasetSource): Dataset {
+  const report = validateInsuranceCsv(csvContent);
+  if (!report.isValid) {
+    console.error('Insurance data failed validation:\n' + formatValidationReport(report));
+    throw new Error(`Insurance data failed validation with ${report.errorCount} errors`);
+  }
+  if (report.warningCount > 0) {
+    console.warn(`Insurance data loaded with ${report.warningCount} warnings (run npm run validate:data for details)`);
+  }
+
+  const products = parseInsuranceCsv(csvContent).products;
+  return {
+    version: createHash('sha256').update(csvContent).digest('hex').slice(0, 12),
+    loadedAt: new Date().toISOString(),
+    source,
+    productCount: products.length,
+    warningCount: report.warningCount,
+    products,
+  };
+}
+
+// Write to a temp path and rename, so a reader never sees a partial file
+async function writeFileAtomic(filePath: string, content: string): Promise<void> {
+  const tempPath = `${filePath}.${randomUUID()}.tmp`;
+  await fs.writeFile(tempPath, content, 'utf-8');
+  await fs.rename(tempPath, filePath);
+}
+
+async function pathExists(filePath: string): Promise<boolean> {
+  return fs.access(filePath).then(() => true, () => false);
+}
+
+function getArchivePath(version: string): string {
+  return path.join(DATASET_VERSIONS_DIR, `${version}.csv`);
+}
+
+// Datasets stored by earlier runs, newest first. They passed validation when they were stored;
+// a file that no longer does is skipped.
+async function readArchivedDatasets(): Promise<Dataset[]> {
+  const files = (await fs.readdir(DATASET_VERSIONS_DIR).catch(() => [] as string[]))
+    .filter(file => file.endsWith('.csv'));
+
+  const archived = await Promise.all(files.map(async file => {
+    const filePath = path.join(DATASET_VERSIONS_DIR, file);
+    const [csvContent, stats] = await Promise.all([fs.readFile(filePath, 'utf-8'), fs.stat(filePath)]);
+    const report = validateInsuranceCsv(csvContent);
+    if (!report.isValid) {
+      console.warn(`Skipping archived dataset ${file}: it no longer passes validation`);
+      return null;
+    }
+    const products = parseInsuranceCsv(csvContent).products;
+    const dataset: Dataset = {
+      version: path.basename(file, '.csv'),
+      loadedAt: stats.mtime.toISOString(),
+      source: 'archive',
+      productCount: products.length,
+      warningCount: report.warningCount,
+      products,
+    };
+    return dataset;
+  }));
+
+  return archived
+    .filter((dataset): dataset is Dataset => dataset !== null)
+    .sort((a, b) => b.loadedAt.localeCompare(a.loadedAt));
+}
+
+// Make a dataset current. The list is replaced in a single assignment, so a request
+// always sees either the old or the new dataset, never a half-loaded one.
+function swapDataset(dataset: Dataset): DatasetSummary {
+  const current = datasets[0];
+  if (current && current.version === dataset.version) {
+    return toSummary(current);
+  }
+
+  datasets = [dataset, ...datasets.filter(existing => existing.version !== dataset.version)]
+    .slice(0, MAX_DATASET_VERSIONS);
+
+  console.log(`📦 Insurance dataset ${dataset.version} active (${dataset.productCount} products, source: ${dataset.source})`);
+  return toSummary(dataset);
+}
+
+// Store a dataset's CSV by version and publish it to the built app, then make it current.
+// Stored versions that are no longer kept are removed.
+async function activateDataset(dataset: Dataset, csvContent: string): Promise<DatasetSummary> {
+  await fs.mkdir(DATASET_VERSIONS_DIR, { recursive: true });
+  await writeFileAtomic(getArchivePath(dataset.version), csvContent); // Its time orders the archive
+  if (await pathExists(path.dirname(SERVED_CSV_PATH))) {
+    await writeFileAtomic(SERVED_CSV_PATH, csvContent);
+  }
+
+  const summary = swapDataset(dataset);
+
+  const kept = new Set(datasets.map(existing => `${existing.version}.csv`));
+  const stored = await fs.readdir(DATASET_VERSIONS_DIR);
+  await Promise.all(stored
+    .filter(file => file.endsWith('.csv') && !kept.has(file))
+    .map(file => fs.unlink(path.join(DATASET_VERSIONS_DIR, file))));
+
+  return summary;
+}
+
+export async function readDatasetFile(): Promise<string> {
+  return fs.readFile(INSURANCE_CSV_PATH, 'utf-8');
+}
+
+// Load the data file (or its content, when the caller has already read it). On startup the
+// versions stored by earlier runs are restored behind it.
+export async function loadDatasetFromFile(source: DatasetSource = 'startup', csvContent?: string): Promise<DatasetSummary> {
+  const content = csvContent ?? await readDatasetFile();
+  const dataset = buildDataset(content, source);
+  if (datasets.length === 0) {
+    datasets = (await readArchivedDatasets())
+      .filter(archived => archived.version !== dataset.version)
+      .slice(0, MAX_DATASET_VERSIONS);
+  }
+  return activateDataset(dataset, content);
+}
+
+// Validate an uploaded CSV, persist it over the data file and make it current.
+// The file is written to a temp path and renamed so the browser never fetches a partial file.
+export async function uploadDataset(csvContent: string): Promise<DatasetSummary> {
+  const dataset = buildDataset(csvContent, 'upload');
+  await writeFileAtomic(INSURANCE_CSV_PATH, csvContent);
+  return activateDataset(dataset, csvContent);
+}
+
+// Get a dataset by version id, or the current one when no version is given
+export function getDataset(version?: string): Dataset | undefined {
+  return version ? datasets.find(dataset => dataset.version === version) : datasets[0];
+}
+
+export function listDatasets(): DatasetSummary[] {
+  return datasets.map(toSummary);
+}
+
+// Reload the data file when it changes on disk. An invalid file is logged and ignored,
+// leaving the previous dataset in service.
+export function watchDatasetFile(): FSWatcher {
+  let debounceTimer: NodeJS.Timeout | null = null;
+
+  return watch(path.dirname(INSURANCE_CSV_PATH), (_eventType, filename) => {
+    if (filename !== path.basename(INSURANCE_CSV_PATH)) {
+      return;
+    }
+    if (debounceTimer) {
+      clearTimeout(debounceTimer);
+    }
+    debounceTimer = setTimeout(() => {
+      loadDatasetFromFile('file-watch').catch(error => {
+        console.error(`Keeping dataset ${datasets[0]?.version ?? '(none)'}; reload failed:`, error.message);
+      });
+    }, WATCH_DEBOUNCE_MS);
+  });
+}
@@ -0,0 +1,91 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { AGE_GROUPS, AUSTRALIAN_STATES, GENDERS, PRIORITIES, InsuranceProduct, ProcessedInsuranceProduct, QuizData, ScoringProfile, SelectedFeature } from '../../src/types/index.js';
+import { parseInsuranceCsv } from '../../src/utils/csvLoader.js';
+import { getQuizResults } from '../../src/utils/scoring.js';
+import { validateScoringProfile } from '../../src/utils/scoringProfile.js';
+import { getFilteredAndSortedProductsServer } from './insuranceLogic.js';
+
+// Golden check that the API and the browser quiz rank the real data identically: the quiz side
+// parses public/insurance-data.csv and scoring-profile.json the way the browser does, the API side
+// loads them through the dataset store, for every state, age group, gender and priority.
+
+const FEATURE_SETS: SelectedFeature[][] = [
+  [],
+  ['STORM'],
+  ['WINDSCREEN', 'HIRE_CAR'],
+  ['NEW_CAR_REPLACEMENT', 'ROADSIDE_ASSISTANCE', 'CHOICE_OF_REPAIRER'],
+];
+
+// What the results show and are ordered by
+const summarise = (products: ProcessedInsuranceProduct[]) => products.map(product => ({
+  id: product.id,
+  priceRating: product.priceRating,
+  annualCostRating: product.annualCostRating,
+  averageFeatureScore: product.averageFeatureScore,
+  coverScore: product.coverScore,
+  finderScore: product.finderScore,
+  dynamicFinderScore: product.dynamicFinderScore,
+}));
+
+const quizData = (overrides: Partial<QuizData>): QuizData => ({
+  state: null,
+  postcode: null,
+  ageGroup: null,
+  age: null,
+  gender: null,
+  vehicle: null,
+  annualKm: null,
+  paymentFrequency: 'Annual',
+  priority: null,
+  selectedFeatures: [],
+  includeOptionalCover: false,
+  ...overrides,
+});
+
+describe('API and quiz rankings', () => {
+  let quizProducts: InsuranceProduct[];
+  let quizProfile: ScoringProfile;
+
+  beforeAll(async () => {
+    const publicDir = path.join(process.cwd(), 'public');
+    quizProducts = parseInsuranceCsv(await fs.readFile(path.join(publicDir, 'insurance-data.csv'), 'utf-8')).products;
+    quizProfile = validateScoringProfile(JSON.parse(await fs.readFile(path.join(publicDir, 'scoring-profile.json'), 'utf-8')));
+  });
+
+  AUSTRALIAN_STATES.forEach(state => {
+    it(`match for every age group, gender, priority and feature set in ${state}`, async () => {
+      for (const ageGroup of AGE_GROUPS) {
+        for (const gender of GENDERS) {
+          for (const priority of PRIORITIES) {
+            // Price-first quizzes skip the feature step
+            for (const selectedFeatures of priority === 'Features' ? FEATURE_SETS : [[]]) {
+              const quiz = getQuizResults(quizProducts, quizData({ state, ageGroup, gender, priority, selectedFeatures }), quizProfile);
+              const api = await getFilteredAndSortedProductsServer(
+                state,
+                gender,
+                ageGroup,
+                priority === 'Price' ? 'priceRating' : 'finderScore',
+                selectedFeatures,
+                priority,
+                { paymentFrequency: 'Annual' }
+              );
+
+              expect(quiz.length, `${state} ${ageGroup} ${gender} ${priority} [${selectedFeatures}]`).toBeGreaterThan(0);
+              expect(summarise(api), `${state} ${ageGroup} ${gender} ${priority} [${selectedFeatures}]`).toEqual(summarise(quiz));
+            }
+          }
+        }
+      }
+    });
+  });
+
+  it('match for exact ages between the age group bands', async () => {
+    for (const age of [19, 34, 47, 64]) {
+      const quiz = getQuizResults(quizProducts, quizData({ state: 'NSW', age, gender: 'Female', priority: 'Price' }), quizProfile);
+      const api = await getFilteredAndSortedProductsServer('NSW', 'Female', age, 'priceRating', [], 'Price', { paymentFrequency: 'Annual' });
+      expect(summarise(api), `age ${age}`).toEqual(summarise(quiz));
+    }
+  });
+});
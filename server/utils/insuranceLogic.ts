@@ -1,233 +1,95 @@
 import { promises as fs } from 'fs';
 import path from 'path';
-import Papa from 'papaparse';
-import { AustralianState, AgeGroup, Gender, Priority, SelectedFeature, InsuranceProduct, ProcessedInsuranceProduct } from '../../src/types/index.js';
-
-// Import the existing logic from the frontend
-let cachedInsuranceData: InsuranceProduct[] | null = null;
-
-export async function loadInsuranceDataServer(): Promise<InsuranceProduct[]> {
-  if (cachedInsuranceData) {
-    return cachedInsuranceData;
-  }
-
-  try {
-    const csvPath = path.join(process.cwd(), 'public', 'insurance-data.csv');
-    const csvContent = await fs.readFile(csvPath, 'utf-8');
-    
-    const parseResult = Papa.parse<InsuranceProduct>(csvContent, {
-      header: true,
-      skipEmptyLines: true,
-      transform: (value: string, field: string) => {
-        // Handle boolean fields
-        if (['STORM_COVERAGE', 'WINDSCREEN_COVERAGE', 'PERSONAL_EFFECTS_COVERAGE', 
-             'ACCIDENTAL_DAMAGE_COVERAGE', 'NEW_CAR_REPLACEMENT'].includes(field)) {
-          return value.toLowerCase() === 'true' || value === '1' || value === 'yes';
-        }
-        return value;
-      }
-    });
+import { AustralianState, AgeGroup, Gender, Priority, SelectedFeature, InsuranceProduct, ProcessedInsuranceProduct, ScoringProfile, RankingOptions } from '../../src/types/index.js';
+import { validateInsuranceCsv, DataValidationReport } from '../../src/utils/csvValidator.js';
+import { RankingContext, getFilteredAndSortedProducts } from '../../src/utils/scoring.js';
+import { PriceMatrix, buildPriceMatrixFromProducts, findPriceLookup } from '../../src/utils/priceMatrix.js';
+import { validateScoringProfile } from '../../src/utils/scoringProfile.js';
+import { INSURANCE_CSV_PATH, getDataset, loadDatasetFromFile } from './datasetStore.js';
+
+let cachedScoringProfile: ScoringProfile | null = null;
+
+// Schema check for the insurance CSV, used at startup and by `npm run validate:data`
+export async function validateInsuranceDataServer(csvPath: string = INSURANCE_CSV_PATH): Promise<DataValidationReport> {
+  const csvContent = await fs.readFile(csvPath, 'utf-8');
+  return validateInsuranceCsv(csvContent);
+}
 
-    if (parseResult.errors.length > 0) {
-      console.error('CSV parsing errors:', parseResult.errors);
-      throw new Error('Failed to parse insurance data');
+// Products from the current dataset, or from an earlier one kept by the dataset store
+export async function loadInsuranceDataServer(datasetVersion?: string): Promise<InsuranceProduct[]> {
+  if (!getDataset()) {
+    try {
+      await loadDatasetFromFile('startup');
+    } catch (error) {
+      console.error('Error loading insurance data:', error);
+      throw new Error('Failed to load insurance data');
     }
-
-    cachedInsuranceData = parseResult.data;
-    return cachedInsuranceData;
-  } catch (error) {
-    console.error('Error loading insurance data:', error);
-    throw new Error('Failed to load insurance data');
   }
-}
-
-// Price column mapping (reused from frontend)
-function getPriceColumnKey(state: AustralianState, gender: Gender, ageGroup: AgeGroup): string {
-  // Map age groups to the column suffixes
-  const ageMap: Record<AgeGroup, string> = {
-    '< 25 years': '20',
-    '< 35 years': '30',
-    '< 65 years': '60',
-  };
-  
-  // Map gender to column prefix
-  const genderMap: Record<Gender, string> = {
-    'Male': 'M',
-    'Female': 'F',
-    'Other': 'F', // Default to Female for 'Other'
-  };
-  
-  return `2025-AUFCI-${state}-${genderMap[gender]}-${ageMap[ageGroup]}`;
-}
-
-// Feature score calculation (simplified version of frontend logic)
-function calculateFeatureScore(product: InsuranceProduct, selectedFeatures: SelectedFeature[] = []): number {
-  // Convert string values to boolean/numeric as per frontend logic
-  const stormValue = product.STORM.toLowerCase() === 'yes';
-  const windscreenValue = product.WINDSCREEN.toLowerCase() === 'yes';
-  const personalEffectsValue = parseFloat(product.PERSONAL_EFFECTS) || 0;
-  const accidentalDamageValue = product.ACCIDENTAL_DAMAGE.toLowerCase() === 'yes';
-  const newCarReplacementValue = product.NEW_CAR_REPLACEMENT.toLowerCase() === 'yes';
-
-  // Simplified scoring (using fixed scores like the previous version but with correct data)
-  const features = {
-    STORM: stormValue ? 9.0 : 1.0,
-    WINDSCREEN: windscreenValue ? 8.5 : 1.0,
-    PERSONAL_EFFECTS: personalEffectsValue > 0 ? (4.0 + personalEffectsValue / 10000) : 1.0, // Scale based on amount
-    ACCIDENTAL_DAMAGE: accidentalDamageValue ? 9.5 : 1.0,
-    NEW_CAR_REPLACEMENT: newCarReplacementValue ? 9.8 : 1.0
-  };
 
-  if (selectedFeatures.length === 0) {
-    // Equal weighting
-    return Object.values(features).reduce((sum, score) => sum + score, 0) / 5;
+  const dataset = getDataset(datasetVersion);
+  if (!dataset) {
+    throw new Error(`Unknown dataset version: ${datasetVersion}`);
   }
-
-  let totalWeight = 0;
-  let weightedSum = 0;
-
-  const weights = calculateFeatureWeights(selectedFeatures);
-  
-  Object.entries(features).forEach(([feature, score]) => {
-    const weight = weights[feature as SelectedFeature] || 0;
-    weightedSum += score * weight;
-    totalWeight += weight;
-  });
-
-  return totalWeight > 0 ? weightedSum / totalWeight : 0;
+  return dataset.products;
 }
 
-function calculateFeatureWeights(selectedFeatures: SelectedFeature[]): Record<SelectedFeature, number> {
-  const allFeatures: SelectedFeature[] = ['STORM', 'WINDSCREEN', 'PERSONAL_EFFECTS', 'ACCIDENTAL_DAMAGE', 'NEW_CAR_REPLACEMENT'];
-  const weights: Record<SelectedFeature, number> = {} as Record<SelectedFeature, number>;
-
-  if (selectedFeatures.length === 0) {
-    allFeatures.forEach(feature => weights[feature] = 0.2);
-    return weights;
+// Load the scoring profile shared with the browser quiz.
+// An invalid profile is a hard error: we never rank with weights we cannot trace.
+export async function loadScoringProfileServer(): Promise<ScoringProfile> {
+  if (cachedScoringProfile) {
+    return cachedScoringProfile;
   }
 
-  const selectedWeight = selectedFeatures.length === 1 ? 0.6 :
-                        selectedFeatures.length === 2 ? 0.4 :
-                        selectedFeatures.length === 3 ? 0.3 :
-                        selectedFeatures.length === 4 ? 0.25 : 0.2;
+  const profilePath = path.join(process.cwd(), 'public', 'scoring-profile.json');
+  const profileContent = await fs.readFile(profilePath, 'utf-8');
 
-  const remainingWeight = Math.max(0, 1 - (selectedFeatures.length * selectedWeight));
-  const nonSelectedCount = allFeatures.length - selectedFeatures.length;
-  const nonSelectedWeight = nonSelectedCount > 0 ? remainingWeight / nonSelectedCount : 0;
-
-  allFeatures.forEach(feature => {
-    weights[feature] = selectedFeatures.includes(feature) ? selectedWeight : nonSelectedWeight;
-  });
-
-  return weights;
+  cachedScoringProfile = validateScoringProfile(JSON.parse(profileContent));
+  return cachedScoringProfile;
 }
 
-// Process insurance product (simplified version of frontend logic)
-export function processInsuranceProductServer(
-  product: InsuranceProduct,
+// Why a profile can't be priced from the current dataset (or the given price matrix), naming the
+// missing state / gender / age combination; null when it can. Routes answer 422 no_premium_data.
+export async function getMissingPremiumData(
   state: AustralianState,
   gender: Gender,
-  ageGroup: AgeGroup,
-  priceRatingMap: Map<number, number>,
-  selectedFeatures: SelectedFeature[] = [],
-  userPriority: Priority = 'Price'
-): ProcessedInsuranceProduct {
-  const priceKey = getPriceColumnKey(state, gender, ageGroup);
-  const price = parseFloat(product[priceKey as keyof InsuranceProduct] as string) || 0;
-  const priceRating = priceRatingMap.get(price) || 1.0;
-  
-  const averageFeatureScore = calculateFeatureScore(product, selectedFeatures);
-  
-  // Dynamic Finder Score calculation
-  const dynamicFinderScore = userPriority === 'Price' 
-    ? (priceRating * 0.85) + (averageFeatureScore * 0.15)
-    : (averageFeatureScore * 0.85) + (priceRating * 0.15);
-
-  return {
-    id: product.ID,
-    name: product.NAME,
-    providerId: product.PROVIDER_ID,
-    price: price,
-    priceRating,
-    priceScore: parseFloat(product.PRICE_SCORE) || 0,
-    coverScore: parseFloat(product.COVER_SCORE) || 0,
-    finderScore: parseFloat(product.FINDER_SCORE) || 0,
-    averageFeatureScore,
-    dynamicFinderScore,
-    features: {
-      agreedOrMarketValue: product.AGREED_OR_MARKET_VALUE,
-      choiceOfRepairer: product.CHOICE_OF_REPAIRER.toLowerCase() === 'yes',
-      lifetimeGuarantee: product.LIFETIME_GUARANTEE_ON_REPAIRS.toLowerCase() === 'yes',
-      newCarReplacement: product.NEW_CAR_REPLACEMENT.toLowerCase() === 'yes',
-      newCarReplacementDetails: product.NEWCAR_REPLACEMENT_DETAILS,
-      personalEffects: product.PERSONAL_EFFECTS,
-      personalEffectsDetails: product.PERSONALEFFECTS_DETAILS,
-      roadsideAssistance: product.ROADSIDE_ASSISTANCE.toLowerCase() === 'yes',
-      roadsideAssistanceCost: product.ROADSIDE_ASSISTANCE_COST,
-      storm: product.STORM.toLowerCase() === 'yes',
-      towing: product.TOWING.toLowerCase() === 'yes',
-      keyReplacement: product.KEY_REPLACEMENT,
-      keyReplacementDetails: product.KEYREPLACEMENT_DETAILS,
-      childSeatReplacement: product.CHILD_SEAT_BABY_CAPSULES.toLowerCase() === 'yes',
-      childSeatDetails: product.CHILD_SEAT_BABY_CAPSULES_DETAILS,
-      emergencyTransport: product.EMERGENCY_TRANSPORT_AND_ACCOMMODATION.toLowerCase() === 'yes',
-      emergencyTransportDetails: product.EMERGENCY_TRANSPORT_ACCOMMODATION_DETAILS,
-      essentialRepairs: product.ESSENTIAL_EMERGENCY_REPAIRS,
-      essentialRepairsDetails: product.ESSENTIAL_EMERGENCY_REPAIR_DETAILS,
-      hireCarAfterAccident: product.HIRE_CAR_AFTER_ACCIDENT,
-      restrictedDriverOption: product.RESTRICTED_DRIVER_OPTION,
-      noExcessWindscreen: product.NO_EXCESS_WINDSCREEN.toLowerCase() === 'yes',
-      windscreen: product.WINDSCREEN.toLowerCase() === 'yes',
-      payMonthly: product.PAY_MONTHLY_YES.toLowerCase() === 'yes',
-      reducedExcessWindscreen: product.REDUCED_EXCESS_WINDSCREEN,
-      accidentalDamage: product.ACCIDENTAL_DAMAGE.toLowerCase() === 'yes',
-    },
-    // Feature sub-scores for detailed analysis
-    stormCoverageScore: product.STORM.toLowerCase() === 'yes' ? 9.0 : 1.0,
-    windscreenCoverageScore: product.WINDSCREEN.toLowerCase() === 'yes' ? 8.5 : 1.0,
-    personalEffectsCoverageScore: parseFloat(product.PERSONAL_EFFECTS) > 0 ? 8.0 : 1.0,
-    accidentalDamageCoverageScore: product.ACCIDENTAL_DAMAGE.toLowerCase() === 'yes' ? 9.5 : 1.0,
-    newCarReplacementScore: product.NEW_CAR_REPLACEMENT.toLowerCase() === 'yes' ? 9.8 : 1.0
-  };
+  age: AgeGroup | number,
+  priceMatrix?: PriceMatrix
+): Promise<string | null> {
+  const matrix = priceMatrix ?? buildPriceMatrixFromProducts(await loadInsuranceDataServer());
+  const { otherGenderPricing } = await loadScoringProfileServer();
+  const lookup = findPriceLookup(matrix, state, gender, age, matrix.latestYear, otherGenderPricing);
+  return lookup.ok ? null : lookup.error;
 }
 
-// Main function to get filtered and sorted products (replicates frontend logic)
+// Main function to get filtered and sorted products.
+// Delegates to the shared scoring engine so API rankings match the quiz.
+// A ranking context built from the same dataset lets several rankings share their price ratings.
 export async function getFilteredAndSortedProductsServer(
   state: AustralianState,
   gender: Gender,
-  ageGroup: AgeGroup,
+  age: AgeGroup | number, // Age group band, or an exact age
   sortBy: 'priceRating' | 'finderScore' = 'finderScore',
   selectedFeatures: SelectedFeature[] = [],
-  userPriority: Priority = 'Price'
+  userPriority: Priority = 'Price',
+  options: RankingOptions = {},
+  datasetVersion?: string,
+  context?: RankingContext
 ): Promise<ProcessedInsuranceProduct[]> {
-  const products = await loadInsuranceDataServer();
-  
-  // Get price column and collect all valid prices for rating calculation
-  const priceKey = getPriceColumnKey(state, gender, ageGroup);
-  const allPrices = products
-    .map(product => parseFloat(product[priceKey as keyof InsuranceProduct] as string) || 0)
-    .filter(price => price > 0)
-    .sort((a, b) => a - b);
-
-  // Create price rating map (1.0 to 9.9 scale)
-  const priceRatingMap = new Map<number, number>();
-  allPrices.forEach((price, index) => {
-    const rating = 1.0 + (8.9 * (allPrices.length - 1 - index)) / (allPrices.length - 1);
-    priceRatingMap.set(price, rating);
-  });
-
-  // Process all products
-  const processedProducts = products
-    .map(product => processInsuranceProductServer(
-      product, state, gender, ageGroup, priceRatingMap, selectedFeatures, userPriority
-    ))
-    .filter(product => product.priceRating > 0); // Filter out products with no valid price
-
-  // Sort products
-  const sortKey = sortBy === 'priceRating' ? 'priceRating' : 'dynamicFinderScore';
-  const sorted = processedProducts.sort((a, b) => b[sortKey] - a[sortKey]);
-
-  return sorted;
+  const products = await loadInsuranceDataServer(datasetVersion);
+  const scoringProfile = await loadScoringProfileServer();
+
+  return getFilteredAndSortedProducts(
+    products,
+    state,
+    gender,
+    age,
+    sortBy,
+    selectedFeatures,
+    userPriority,
+    scoringProfile,
+    options,
+    context
+  );
 }
 
 // Sponsored products helper
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { ProcessedInsuranceProduct } from '../../src/types/index.js';
+import { listProducts, rankProducts } from './productListing.js';
+
+// Only the fields the listing sorts by and returns
+const product = (id: string, priceRating: number, finderScore: number, coverScore: number): ProcessedInsuranceProduct => ({
+  id,
+  name: `Product ${id}`,
+  priceRating,
+  finderScore,
+  coverScore,
+} as ProcessedInsuranceProduct);
+
+const PRODUCTS = [
+  product('c', 7, 6, 3),
+  product('a', 9, 5, 8),
+  product('e', 7, 9, 1),
+  product('b', 4, 8, 8),
+  product('d', 6, 7, 5),
+];
+
+const idsOf = (products: { id?: unknown }[]) => products.map(item => item.id);
+
+describe('rankProducts', () => {
+  it('ranks by price rating for Price and finder score for Features, ties by id', () => {
+    expect(idsOf(rankProducts(PRODUCTS, 'Price'))).toEqual(['a', 'c', 'e', 'd', 'b']);
+    expect(idsOf(rankProducts(PRODUCTS, 'Features'))).toEqual(['e', 'b', 'd', 'c', 'a']);
+  });
+});
+
+describe('listProducts', () => {
+  it('returns the first page in the ranking for the priority by default', () => {
+    const list = listProducts(PRODUCTS, {}, 'Price', 2);
+
+    expect(idsOf(list.products)).toEqual(['a', 'c']);
+    expect(list.pagination).toEqual({ page: 1, pageSize: 2, totalItems: 5, totalPages: 3, hasNextPage: true });
+    expect(list.sort).toEqual({ sortBy: null, sortDirection: 'desc' });
+  });
+
+  it('sorts by the requested field and direction, keeping ties in id order', () => {
+    const list = listProducts(PRODUCTS, { sortBy: 'coverScore', sortDirection: 'asc' }, 'Price', 10);
+
+    expect(idsOf(list.products)).toEqual(['e', 'c', 'd', 'a', 'b']);
+  });
+
+  it('returns the last page partly filled, and pages past the end empty', () => {
+    const lastPage = listProducts(PRODUCTS, { page: 3, pageSize: 2 }, 'Features', 10);
+    const pastTheEnd = listProducts(PRODUCTS, { page: 4, pageSize: 2 }, 'Features', 10);
+
+    expect(idsOf(lastPage.products)).toEqual(['a']);
+    expect(lastPage.pagination.hasNextPage).toBe(false);
+    expect(pastTheEnd.products).toEqual([]);
+    expect(pastTheEnd.pagination.totalItems).toBe(5);
+  });
+
+  it('returns only the requested fields, always with the id', () => {
+    const list = listProducts(PRODUCTS, { pageSize: 1, fields: ['name', 'priceRating'] }, 'Price', 10);
+
+    expect(list.products).toEqual([{ id: 'a', name: 'Product a', priceRating: 9 }]);
+  });
+});
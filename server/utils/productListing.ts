@@ -0,0 +1,52 @@
+import { Priority, ProcessedInsuranceProduct } from '../../src/types/index.js';
+import { Pagination, ProductListRequest, ProductListSort, ProductSortField, SparseProduct } from '../types/api.js';
+
+export const MAX_PAGE_SIZE = 50;
+
+export interface ProductList {
+  products: SparseProduct[];
+  pagination: Pagination;
+  sort: ProductListSort;
+}
+
+type SortKey = ProductSortField | 'finderScore';
+
+const getRankingKey = (priority: Priority): SortKey => priority === 'Price' ? 'priceRating' : 'finderScore';
+
+// Sort by one score; ties go to the lower product id so the order (and so each page) is the same on every request
+function sortProducts(products: ProcessedInsuranceProduct[], key: SortKey, direction: ProductListSort['sortDirection']): ProcessedInsuranceProduct[] {
+  const sign = direction === 'asc' ? 1 : -1;
+  return [...products].sort((a, b) => sign * (a[key] - b[key]) || a.id.localeCompare(b.id));
+}
+
+// The ranking for the priority: price rating for Price, finder score for Features, best first
+export function rankProducts(products: ProcessedInsuranceProduct[], priority: Priority): ProcessedInsuranceProduct[] {
+  return sortProducts(products, getRankingKey(priority), 'desc');
+}
+
+export function selectProductFields(product: ProcessedInsuranceProduct, fields?: ProductListRequest['fields']): SparseProduct {
+  if (!fields) {
+    return product;
+  }
+  return Object.fromEntries(['id', ...fields].map(field => [field, product[field as keyof ProcessedInsuranceProduct]]));
+}
+
+// One page of products, sorted and trimmed as the request asks (without sortBy, in the ranking for the priority)
+export function listProducts(
+  products: ProcessedInsuranceProduct[],
+  request: ProductListRequest,
+  priority: Priority,
+  defaultPageSize: number
+): ProductList {
+  const sort: ProductListSort = { sortBy: request.sortBy ?? null, sortDirection: request.sortDirection ?? 'desc' };
+  const sorted = sortProducts(products, sort.sortBy ?? getRankingKey(priority), sort.sortDirection);
+
+  const page = request.page ?? 1;
+  const pageSize = request.pageSize ?? defaultPageSize;
+  const totalPages = Math.ceil(sorted.length / pageSize);
+  return {
+    products: sorted.slice((page - 1) * pageSize, page * pageSize).map(product => selectProductFields(product, request.fields)),
+    pagination: { page, pageSize, totalItems: sorted.length, totalPages, hasNextPage: page < totalPages },
+    sort,
+  };
+}
@@ -0,0 +1,30 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// Also loaded by vite.config.ts, so it imports nothing else from the repo
+
+// Provider logos are named <PROVIDER_ID>.<extension> and served from /logos
+export const LOGO_DIR = path.join(process.cwd(), 'public', 'logos');
+const LOGO_URL_PATH = '/logos';
+
+// The static manifest the browser quiz loads its logos from, generated by the Vite build (vite.config.ts)
+export const PROVIDER_LOGOS_FILE = 'provider-logos.json';
+
+// Preferred first when a provider has more than one logo file
+const LOGO_EXTENSIONS = ['png', 'jpg', 'jpeg', 'webp', 'svg'];
+
+// Logo URL per provider id. The folder is read on each call, so a logo added while the server runs is picked up.
+export async function getProviderLogoUrls(): Promise<Record<string, string>> {
+  const files = await fs.readdir(LOGO_DIR).catch(() => [] as string[]);
+  const extensionRank = (file: string) => LOGO_EXTENSIONS.indexOf(path.extname(file).slice(1).toLowerCase());
+
+  const logoUrls: Record<string, string> = {};
+  files
+    .filter(file => extensionRank(file) !== -1)
+    .sort((a, b) => extensionRank(a) - extensionRank(b))
+    .forEach(file => {
+      const providerId = path.basename(file, path.extname(file));
+      logoUrls[providerId] ??= `${LOGO_URL_PATH}/${encodeURIComponent(file)}`;
+    });
+  return logoUrls;
+}
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { compareInsuranceRequestSchema, quickQuoteRequestSchema } from '../types/schemas.js';
+import {
+  arraySchema,
+  numberSchema,
+  objectSchema,
+  oneOf,
+  optional,
+  parseRequest,
+  queryBooleanSchema,
+  queryListSchema,
+  stringSchema
+} from './validation.js';
+
+const fieldErrorsOf = (result: ReturnType<typeof parseRequest>) => result.ok ? {} : result.fieldErrors;
+
+describe('schemas', () => {
+  it('describe the numeric bounds a value broke', () => {
+    expect(fieldErrorsOf(parseRequest(numberSchema({ integer: true, min: 1, max: 100 }), 1.5))).toEqual({
+      body: 'must be a whole number of 1 or more and no more than 100',
+    });
+    expect(fieldErrorsOf(parseRequest(numberSchema({ min: 0, exclusiveMin: true }), 0))).toEqual({ body: 'must be a number greater than 0' });
+  });
+
+  it('report every invalid array item by its path, and duplicates once the items are valid', () => {
+    const schema = objectSchema<{ colours: ('red' | 'green')[] }>({
+      colours: arraySchema(oneOf(['red', 'green'] as const), { unique: true }),
+    });
+
+    expect(fieldErrorsOf(parseRequest(schema, { colours: ['red', 'blue', 1] }))).toEqual({
+      'colours[1]': 'must be one of: red, green',
+      'colours[2]': 'must be one of: red, green',
+    });
+    expect(fieldErrorsOf(parseRequest(schema, { colours: ['red', 'red'] }))).toEqual({ colours: 'must not contain duplicates' });
+  });
+
+  it('reject unknown object fields and report missing required ones', () => {
+    const schema = objectSchema<{ name: string; nickname?: string }>({
+      name: stringSchema({ nonEmpty: true }),
+      nickname: optional(stringSchema()),
+    });
+
+    expect(parseRequest(schema, { name: 'Sam' })).toEqual({ ok: true, value: { name: 'Sam' } });
+    expect(fieldErrorsOf(parseRequest(schema, { nmae: 'Sam' }))).toEqual({ nmae: 'is not a recognised field', name: 'is required' });
+  });
+
+  it('read query string lists and booleans from text', () => {
+    expect(parseRequest(queryListSchema(oneOf(['a', 'b'] as const)), 'a, b')).toEqual({ ok: true, value: ['a', 'b'] });
+    expect(parseRequest(queryListSchema(oneOf(['a', 'b'] as const)), ['b'])).toEqual({ ok: true, value: ['b'] });
+    expect(parseRequest(queryBooleanSchema(), 'false')).toEqual({ ok: true, value: false });
+    expect(fieldErrorsOf(parseRequest(queryBooleanSchema(), 'yes'))).toEqual({ body: 'must be true or false' });
+  });
+});
+
+describe('request schemas', () => {
+  it('accept a complete comparison request', () => {
+    const request = {
+      postcode: '2000',
+      age: 34,
+      gender: 'Male',
+      priority: 'Features',
+      selectedFeatures: ['STORM'],
+      vehicle: { make: 'Toyota', model: 'Corolla', year: 2020, value: 25000 },
+      page: 2,
+    };
+
+    expect(parseRequest(compareInsuranceRequestSchema, request)).toEqual({ ok: true, value: request });
+  });
+
+  it('report nested fields by path', () => {
+    const result = parseRequest(compareInsuranceRequestSchema, {
+      state: 'NSW',
+      ageGroup: '< 35 years',
+      gender: 'Male',
+      priority: 'Price',
+      selectedFeatures: ['STORM', 'JETPACK'],
+      vehicle: { make: '', model: 'Corolla', year: 2020.5 },
+    });
+
+    expect(fieldErrorsOf(result)).toEqual({
+      'selectedFeatures[1]': expect.stringMatching(/^must be one of: /),
+      'vehicle.make': 'must not be empty',
+      'vehicle.year': 'must be a whole number',
+    });
+  });
+
+  it('require a state or postcode, and an age group, age or date of birth', () => {
+    expect(fieldErrorsOf(parseRequest(compareInsuranceRequestSchema, { gender: 'Male', priority: 'Price' }))).toEqual({
+      state: 'is required unless postcode is given',
+      ageGroup: 'is required unless age or dateOfBirth is given',
+    });
+  });
+
+  it('cap the page size', () => {
+    const result = parseRequest(quickQuoteRequestSchema, { state: 'NSW', ageGroup: '< 35 years', gender: 'Male', pageSize: 10000 });
+
+    expect(Object.keys(fieldErrorsOf(result))).toEqual(['pageSize']);
+  });
+});
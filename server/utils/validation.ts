@@ -0,0 +1,181 @@
+import { FieldErrors } from '../types/api.js';
+
+// Minimal runtime schemas for API requests. A schema parses an unknown value and records a message
+// per invalid field, keyed by its path (e.g. "vehicle.year", "selectedFeatures[1]"), rather than
+// stopping at the first problem. Schema<T> is tied to T at compile time, including whether the field
+// is optional, so the schemas in server/types/schemas.ts are checked against the types in api.ts.
+
+export type ParseResult<T> = { ok: true; value: T } | { ok: false };
+
+export interface Schema<T> {
+  readonly required: undefined extends T ? false : true;
+  parse(value: unknown, path: string, errors: FieldErrors): ParseResult<T>;
+}
+
+const ROOT_PATH = 'body';
+
+function ok<T>(value: T): ParseResult<T> {
+  return { ok: true, value };
+}
+
+function fail(errors: FieldErrors, path: string, message: string): ParseResult<never> {
+  errors[path || ROOT_PATH] = message;
+  return { ok: false };
+}
+
+function childPath(path: string, key: string | number): string {
+  if (typeof key === 'number') {
+    return `${path}[${key}]`;
+  }
+  return path ? `${path}.${key}` : key;
+}
+
+// Build a required schema; a missing (undefined) value is reported as required
+function requiredSchema<T>(parse: (value: unknown, path: string, errors: FieldErrors) => ParseResult<T>): Schema<T> {
+  return {
+    required: true,
+    parse: (value, path, errors) => value === undefined ? fail(errors, path, 'is required') : parse(value, path, errors),
+  } as Schema<T>;
+}
+
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return {
+    required: false,
+    parse: (value, path, errors) => value === undefined ? ok(undefined) : schema.parse(value, path, errors),
+  } as Schema<T | undefined>;
+}
+
+export function oneOf<T extends string>(values: readonly T[]): Schema<T> {
+  return requiredSchema((value, path, errors) =>
+    values.includes(value as T) ? ok(value as T) : fail(errors, path, `must be one of: ${values.join(', ')}`)
+  );
+}
+
+export function stringSchema(options: { pattern?: RegExp; patternMessage?: string; nonEmpty?: boolean } = {}): Schema<string> {
+  return requiredSchema((value, path, errors) => {
+    if (typeof value !== 'string') {
+      return fail(errors, path, 'must be a string');
+    }
+    if (options.nonEmpty && value.trim() === '') {
+      return fail(errors, path, 'must not be empty');
+    }
+    if (options.pattern && !options.pattern.test(value)) {
+      return fail(errors, path, options.patternMessage ?? `must match ${options.pattern}`);
+    }
+    return ok(value);
+  });
+}
+
+export function numberSchema(options: { integer?: boolean; min?: number; exclusiveMin?: boolean; max?: number } = {}): Schema<number> {
+  const kind = options.integer ? 'a whole number' : 'a number';
+  const bounds = [
+    options.min === undefined ? '' : options.exclusiveMin ? `greater than ${options.min}` : `of ${options.min} or more`,
+    options.max === undefined ? '' : `no more than ${options.max}`,
+  ].filter(Boolean);
+  const bound = bounds.length ? ` ${bounds.join(' and ')}` : '';
+  return requiredSchema((value, path, errors) => {
+    const valid = typeof value === 'number' && Number.isFinite(value)
+      && (!options.integer || Number.isInteger(value))
+      && (options.min === undefined || (options.exclusiveMin ? value > options.min : value >= options.min))
+      && (options.max === undefined || value <= options.max);
+    return valid ? ok(value as number) : fail(errors, path, `must be ${kind}${bound}`);
+  });
+}
+
+export function booleanSchema(): Schema<boolean> {
+  return requiredSchema((value, path, errors) =>
+    typeof value === 'boolean' ? ok(value) : fail(errors, path, 'must be true or false')
+  );
+}
+
+export function arraySchema<T>(item: Schema<T>, options: { unique?: boolean; minItems?: number; maxItems?: number } = {}): Schema<T[]> {
+  return requiredSchema((value, path, errors) => {
+    if (!Array.isArray(value)) {
+      return fail(errors, path, 'must be an array');
+    }
+    if (options.minItems !== undefined && value.length < options.minItems) {
+      return fail(errors, path, `must have at least ${options.minItems} ${options.minItems === 1 ? 'item' : 'items'}`);
+    }
+    if (options.maxItems !== undefined && value.length > options.maxItems) {
+      return fail(errors, path, `must have no more than ${options.maxItems} items`);
+    }
+
+    const results = value.map((entry, index) => item.parse(entry, childPath(path, index), errors));
+    if (results.some(result => !result.ok)) {
+      return { ok: false };
+    }
+    const items = results.map(result => (result as { value: T }).value);
+    if (options.unique && new Set(items).size !== items.length) {
+      return fail(errors, path, 'must not contain duplicates');
+    }
+    return ok(items);
+  });
+}
+
+// Any value, left for the caller to parse (e.g. batch entries that are checked one at a time)
+export function unknownSchema(): Schema<unknown> {
+  return { required: false, parse: value => ok(value) } as Schema<unknown>;
+}
+
+// Query strings only carry text: a list arrives as a repeated parameter (an array) or as one
+// comma-separated value, and a boolean as "true" / "false"
+export function queryListSchema<T>(item: Schema<T>, options: { unique?: boolean } = {}): Schema<T[]> {
+  const list = arraySchema(item, options);
+  return requiredSchema((value, path, errors) =>
+    list.parse(typeof value === 'string' ? value.split(',').map(entry => entry.trim()) : value, path, errors)
+  );
+}
+
+export function queryBooleanSchema(): Schema<boolean> {
+  return requiredSchema((value, path, errors) =>
+    value === 'true' || value === 'false' ? ok(value === 'true') : fail(errors, path, 'must be true or false')
+  );
+}
+
+// Every field of T needs a schema; fields the schema doesn't know are rejected (catches typos)
+export type ObjectShape<T> = { [K in keyof T]-?: Schema<T[K]> };
+
+export function objectSchema<T>(
+  shape: ObjectShape<T>,
+  check?: (value: T, addError: (field: keyof T & string, message: string) => void) => void // Rules across fields
+): Schema<T> {
+  return requiredSchema((value, path, errors) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return fail(errors, path, 'must be an object');
+    }
+
+    const input = value as Record<string, unknown>;
+    const shapeEntries = Object.entries(shape) as [string, Schema<unknown>][];
+    let valid = true;
+    Object.keys(input)
+      .filter(key => !(key in shape))
+      .forEach(key => {
+        fail(errors, childPath(path, key), 'is not a recognised field');
+        valid = false;
+      });
+
+    const parsed: Record<string, unknown> = {};
+    shapeEntries.forEach(([key, fieldSchema]) => {
+      const result = fieldSchema.parse(input[key], childPath(path, key), errors);
+      if (!result.ok) {
+        valid = false;
+      } else if (result.value !== undefined) {
+        parsed[key] = result.value;
+      }
+    });
+    if (!valid) {
+      return { ok: false };
+    }
+
+    const errorCount = Object.keys(errors).length;
+    check?.(parsed as T, (field, message) => fail(errors, childPath(path, field), message));
+    return Object.keys(errors).length === errorCount ? ok(parsed as T) : { ok: false };
+  });
+}
+
+// Parse a request body or query string, collecting every field error
+export function parseRequest<T>(schema: Schema<T>, value: unknown): { ok: true; value: T } | { ok: false; fieldErrors: FieldErrors } {
+  const fieldErrors: FieldErrors = {};
+  const result = schema.parse(value, '', fieldErrors);
+  return result.ok ? result : { ok: false, fieldErrors };
+}
@@ -1,7 +1,8 @@
 import InsuranceQuiz from './components/InsuranceQuiz'
+import { InitialComparison } from './types'
 
-function App() {
-  return <InsuranceQuiz />
+function App({ initialComparison }: { initialComparison?: InitialComparison }) {
+  return <InsuranceQuiz initialComparison={initialComparison} />
 }
 
-export default App 
\ No newline at end of file
+export default App
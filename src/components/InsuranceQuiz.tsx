@@ -1,41 +1,123 @@
-import { useState, useEffect } from 'react';
-import { AustralianState, AgeGroup, Gender, Priority, SelectedFeature, QuizData, InsuranceProduct, ProcessedInsuranceProduct } from '../types';
-import { loadInsuranceData, getFilteredAndSortedProducts } from '../utils/csvLoader';
-
-const InsuranceQuiz = () => {
-  const [step, setStep] = useState(0);
-  const [quizData, setQuizData] = useState<QuizData>({
-    state: null,
-    ageGroup: null,
-    gender: null,
-    priority: null,
-    selectedFeatures: [],
-  });
+import { useState, useEffect, useRef } from 'react';
+import { AustralianState, Gender, Priority, PaymentFrequency, SelectedFeature, QuizData, InsuranceProduct, ProcessedInsuranceProduct, ScoringProfile, PriceTrend, UsageFit, InitialComparison, RatedProduct, ResultsSortColumn, SortDirection, SavedComparison } from '../types';
+import { loadInsuranceDataset } from '../utils/csvLoader';
+import { getQuizResults } from '../utils/scoring';
+import { DEFAULT_SCORING_PROFILE, loadScoringProfile } from '../utils/scoringProfile';
+import { FEATURE_CATALOGUE, getScoredFeatures } from '../utils/featureCatalogue';
+import { OTHER_GENDER_PRICING_DESCRIPTIONS, buildPriceMatrixFromProducts, getAgeCoverage } from '../utils/priceMatrix';
+import { getAgeFromDateOfBirth, getAgeGroupForAge } from '../utils/age';
+import { resolvePostcode } from '../utils/postcodes';
+import { VEHICLE_CATALOGUE, findVehicleModel, getVehicleModelYears } from '../utils/vehicleCatalogue';
+import { getValueBasisRecommendation } from '../utils/vehicle';
+import { getUsageBasedPricing, getUsageFit } from '../utils/usage';
+import { QuizLocation, getQuizLocationUrl, parseQuizLocation } from '../utils/comparisonUrl';
+import { MAX_COMPARED_PRODUCTS, buildComparisonRows } from '../utils/productComparison';
+import { loadProviderLogoUrls } from '../utils/providerLogos';
+import { ProviderLogoUrls } from '../../server/types/api';
+import { isSponsoredProduct, sortResults } from '../utils/resultsSort';
+import { SAVED_RATING_LABELS, deleteSavedComparison, getSavedComparisonChanges, loadSavedComparisons, renameSavedComparison, saveComparison } from '../utils/savedComparisons';
+
+const emptyQuizData: QuizData = {
+  state: null,
+  postcode: null,
+  ageGroup: null,
+  age: null,
+  gender: null,
+  vehicle: null,
+  annualKm: null,
+  paymentFrequency: 'Annual',
+  priority: null,
+  selectedFeatures: [],
+  includeOptionalCover: false,
+};
+
+interface InsuranceQuizProps {
+  // Results already rendered on the server for a comparison link; the quiz opens on them
+  initialComparison?: InitialComparison;
+}
+
+// Where the quiz opens: server-rendered results, otherwise whatever the address bar holds
+const getInitialLocation = (initialComparison?: InitialComparison): QuizLocation => {
+  if (initialComparison) {
+    return { quizData: initialComparison.quizData, step: 0, showResults: true, sort: initialComparison.sort };
+  }
+  return typeof window !== 'undefined'
+    ? parseQuizLocation(window.location.pathname, window.location.search)
+    : { quizData: emptyQuizData, step: 0, showResults: false, sort: { column: null, direction: 'desc' } };
+};
+
+// Server-rendered results carry no prices until the browser has ranked them again
+const isPricedProduct = (product: RatedProduct): product is ProcessedInsuranceProduct => 'price' in product;
+
+// Identifies a history entry: one per quiz step, plus the results
+const getLocationView = (step: number, showResults: boolean): string => showResults ? 'results' : `step-${step}`;
+
+const InsuranceQuiz = ({ initialComparison }: InsuranceQuizProps) => {
+  const [initialLocation] = useState(() => getInitialLocation(initialComparison));
+  // Results opened from a link before the data loaded are ranked once it arrives
+  const [resultsPending, setResultsPending] = useState(initialLocation.showResults && !initialComparison);
+  const [step, setStep] = useState(initialLocation.step);
+  const [quizData, setQuizData] = useState<QuizData>(initialLocation.quizData);
   const [insuranceData, setInsuranceData] = useState<InsuranceProduct[]>([]);
-  const [filteredProducts, setFilteredProducts] = useState<ProcessedInsuranceProduct[]>([]);
-  const [loading, setLoading] = useState(false);
-  const [showResults, setShowResults] = useState(false);
-  // New loading states for individual scores
+  const [dataLoaded, setDataLoaded] = useState(false);
+  const [datasetVersion, setDatasetVersion] = useState<string | null>(null);
+  const [scoringProfile, setScoringProfile] = useState<ScoringProfile>(initialComparison?.scoringProfile ?? DEFAULT_SCORING_PROFILE);
+  // Server-rendered results have no prices (nothing renders them); they are ranked again once the data loads
+  const [filteredProducts, setFilteredProducts] = useState<RatedProduct[]>(initialComparison?.products ?? []);
+  const [loading, setLoading] = useState(resultsPending);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [showResults, setShowResults] = useState(initialLocation.showResults);
+  // Location step input
+  const [postcodeInput, setPostcodeInput] = useState(initialLocation.quizData.postcode ?? '');
+  const [postcodeError, setPostcodeError] = useState<string | null>(null);
+  // Age step inputs (exact age or date of birth)
+  const [ageInput, setAgeInput] = useState(initialLocation.quizData.age !== null ? String(initialLocation.quizData.age) : '');
+  const [dateOfBirthInput, setDateOfBirthInput] = useState('');
+  const [ageError, setAgeError] = useState<string | null>(null);
+  // Vehicle step inputs
+  const [vehicleMake, setVehicleMake] = useState(initialLocation.quizData.vehicle?.make ?? '');
+  const [vehicleModel, setVehicleModel] = useState(initialLocation.quizData.vehicle?.model ?? '');
+  const [vehicleYear, setVehicleYear] = useState(initialLocation.quizData.vehicle ? String(initialLocation.quizData.vehicle.year) : '');
+  const [vehicleValueInput, setVehicleValueInput] = useState(initialLocation.quizData.vehicle?.value ? String(initialLocation.quizData.vehicle.value) : '');
+  const [vehicleError, setVehicleError] = useState<string | null>(null);
+  // New loading states for individual scores (server-rendered results show them straight away)
   const [scoresLoading, setScoresLoading] = useState({
-    priceRating: true,
-    featureScore: true,
-    dynamicFinderScore: true,
+    priceRating: !initialComparison,
+    featureScore: !initialComparison,
+    dynamicFinderScore: !initialComparison,
   });
   // Modal state for Dynamic Finder Score explanation
   const [showScoreModal, setShowScoreModal] = useState(false);
   const [modalPosition, setModalPosition] = useState({ x: 0, y: 0 });
-  const [hoveredProduct, setHoveredProduct] = useState<ProcessedInsuranceProduct | null>(null);
+  const [hoveredProduct, setHoveredProduct] = useState<RatedProduct | null>(null);
 
   // Modal timeout for smooth hover behavior
   const [modalTimeoutId, setModalTimeoutId] = useState<NodeJS.Timeout | null>(null);
 
   // Sort state
-  const [sortColumn, setSortColumn] = useState<'priceRating' | 'featureScore' | 'dynamicFinderScore' | null>(null);
-  const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc');
+  const [sortColumn, setSortColumn] = useState<ResultsSortColumn | null>(initialLocation.sort.column);
+  const [sortDirection, setSortDirection] = useState<SortDirection>(initialLocation.sort.direction);
+  // History entry the address bar currently shows (see getLocationView)
+  const locationViewRef = useRef(getLocationView(initialLocation.step, initialLocation.showResults));
+
+  // Saved comparisons state (read from browser storage after mount)
+  const [savedComparisons, setSavedComparisons] = useState<SavedComparison[]>([]);
+  const [openedSavedComparison, setOpenedSavedComparison] = useState<SavedComparison | null>(null);
+  const [savedComparisonMessage, setSavedComparisonMessage] = useState<string | null>(null);
+  const [renamingComparisonId, setRenamingComparisonId] = useState<string | null>(null);
+  const [renameInput, setRenameInput] = useState('');
+
+  // Provider id → logo URL from the build's provider-logos.json
+  const [providerLogoUrls, setProviderLogoUrls] = useState<ProviderLogoUrls>({});
 
   // Comparison modal state
   const [showComparisonModal, setShowComparisonModal] = useState(false);
-  const [selectedProductForComparison, setSelectedProductForComparison] = useState<ProcessedInsuranceProduct | null>(null);
+  const [selectedProductForComparison, setSelectedProductForComparison] = useState<RatedProduct | null>(null);
+
+  // Comparison tray state: products picked from the results to compare side by side
+  const [trayProductIds, setTrayProductIds] = useState<string[]>([]);
+  const [showTrayComparison, setShowTrayComparison] = useState(false);
+  const [hideIdenticalRows, setHideIdenticalRows] = useState(false);
 
   // Voice control state
   const [_voiceSupported, setVoiceSupported] = useState(false);
@@ -45,9 +127,27 @@ const InsuranceQuiz = () => {
   const [isMobile, setIsMobile] = useState(false);
 
   const states: AustralianState[] = ['NSW', 'VIC', 'TAS', 'WA', 'SA', 'QLD'];
-  const ageGroups: AgeGroup[] = ['< 25 years', '< 35 years', '< 65 years'];
   const genders: Gender[] = ['Male', 'Female', 'Other'];
-  const availableFeatures: SelectedFeature[] = ['STORM', 'WINDSCREEN', 'PERSONAL_EFFECTS', 'ACCIDENTAL_DAMAGE', 'NEW_CAR_REPLACEMENT'];
+  // Annual km bands, each ranked by its upper end (null = not sure)
+  const annualKmOptions: { label: string; km: number | null }[] = [
+    { label: 'Under 5,000 km', km: 5000 },
+    { label: '5,000 - 10,000 km', km: 10000 },
+    { label: '10,000 - 15,000 km', km: 15000 },
+    { label: '15,000 - 20,000 km', km: 20000 },
+    { label: 'Over 20,000 km', km: 25000 },
+    { label: "I'm not sure", km: null },
+  ];
+  // Agreed vs market value advice for the car entered in the vehicle step
+  const valueBasisRecommendation = quizData.vehicle ? getValueBasisRecommendation(quizData.vehicle) : null;
+  const payingMonthly = quizData.paymentFrequency === 'Monthly';
+  // Tray products in the order they were picked (any no longer in the results drop out)
+  const trayProducts = trayProductIds
+    .map(id => filteredProducts.find(product => product.id === id))
+    .filter((product): product is RatedProduct => product !== undefined);
+  // Usage-based policies left out because the customer drives too far for them
+  const excludedUsagePolicies = insuranceData
+    .map(product => ({ name: product.NAME, fit: getUsageFit(getUsageBasedPricing(product), quizData.annualKm, scoringProfile.usageBased) }))
+    .filter(({ fit }) => fit?.effect === 'exclude');
 
   // Load insurance data on component mount
   // Mobile detection effect
@@ -68,13 +168,25 @@ const InsuranceQuiz = () => {
   useEffect(() => {
     const loadData = async () => {
       try {
-        const data = await loadInsuranceData();
-        setInsuranceData(data);
+        const [dataset, profile] = await Promise.all([loadInsuranceDataset(), loadScoringProfile()]);
+        setInsuranceData(dataset.products);
+        setDatasetVersion(dataset.version);
+        setScoringProfile(profile);
+        setDataLoaded(true);
+        if (initialComparison) {
+          // Same ranking as the server's, now with the full products (unless the user has moved on)
+          const rankedProducts = getQuizResults(dataset.products, initialComparison.quizData, profile);
+          setFilteredProducts(current => current === initialComparison.products ? rankedProducts : current);
+        }
       } catch (error) {
+        // Without the data and the weights the API uses, results would be wrong rather than missing
         console.error('Error loading insurance data:', error);
+        setLoadError("Sorry, we couldn't load the policy data, so we can't compare policies right now. Please refresh the page to try again.");
       }
     };
     loadData();
+    loadProviderLogoUrls().then(setProviderLogoUrls);
+    setSavedComparisons(loadSavedComparisons());
   }, []);
 
   // Initialize voice recognition on mount
@@ -104,12 +216,55 @@ const InsuranceQuiz = () => {
   }, [recognition]);
 
   const handleStateSelect = (state: AustralianState) => {
-    setQuizData({ ...quizData, state });
+    setQuizData({ ...quizData, state, postcode: null });
+    setPostcodeError(null);
     setStep(1);
   };
 
-  const handleAgeSelect = (ageGroup: AgeGroup) => {
-    setQuizData({ ...quizData, ageGroup });
+  const handlePostcodeSubmit = () => {
+    const resolution = resolvePostcode(postcodeInput);
+    if (!resolution) {
+      setPostcodeError('Please enter a valid 4-digit Australian postcode');
+      return;
+    }
+    if (!resolution.state) {
+      setPostcodeError(`Sorry, we can't compare policies in the ${resolution.region} yet.`);
+      return;
+    }
+
+    setPostcodeError(null);
+    setQuizData({ ...quizData, state: resolution.state, postcode: resolution.postcode });
+    setStep(1);
+  };
+
+  // Ages outside the priced bands get a clear message instead of a wrong price
+  const getAgeCoverageError = (age: number, state: AustralianState): string | null => {
+    const coverage = insuranceData.length > 0
+      ? getAgeCoverage(buildPriceMatrixFromProducts(insuranceData), state)
+      : null;
+    return coverage && (age < coverage.minAge || age > coverage.maxAge)
+      ? `Sorry, we don't have premium data for drivers aged ${age} in ${state}. We can compare policies for ages ${coverage.minAge} to ${coverage.maxAge}.`
+      : null;
+  };
+
+  const handleAgeSubmit = () => {
+    const age = ageInput.trim() !== ''
+      ? Number(ageInput)
+      : dateOfBirthInput ? getAgeFromDateOfBirth(dateOfBirthInput) : null;
+
+    if (age === null || !Number.isInteger(age) || age < 0) {
+      setAgeError('Please enter your age in whole years, or your date of birth');
+      return;
+    }
+
+    const coverageError = quizData.state ? getAgeCoverageError(age, quizData.state) : null;
+    if (coverageError) {
+      setAgeError(coverageError);
+      return;
+    }
+
+    setAgeError(null);
+    setQuizData({ ...quizData, age, ageGroup: getAgeGroupForAge(age) });
     setStep(2);
   };
 
@@ -118,6 +273,37 @@ const InsuranceQuiz = () => {
     setStep(3);
   };
 
+  const handleVehicleSubmit = () => {
+    const value = vehicleValueInput.trim() !== '' ? Number(vehicleValueInput) : null;
+    if (value !== null && (!Number.isFinite(value) || value <= 0)) {
+      setVehicleError('Please enter the value of your car in dollars, or leave it blank');
+      return;
+    }
+
+    setVehicleError(null);
+    setQuizData({
+      ...quizData,
+      vehicle: { make: vehicleMake, model: vehicleModel, year: Number(vehicleYear), value },
+    });
+    setStep(4);
+  };
+
+  const handleVehicleSkip = () => {
+    setVehicleError(null);
+    setQuizData({ ...quizData, vehicle: null });
+    setStep(4);
+  };
+
+  const handleAnnualKmSelect = (annualKm: number | null) => {
+    setQuizData({ ...quizData, annualKm });
+    setStep(5);
+  };
+
+  const handlePaymentFrequencySelect = (paymentFrequency: PaymentFrequency) => {
+    setQuizData({ ...quizData, paymentFrequency });
+    setStep(6);
+  };
+
   const handlePrioritySelect = (priority: Priority) => {
     const updatedQuizData = { ...quizData, priority };
     setQuizData(updatedQuizData);
@@ -127,7 +313,7 @@ const InsuranceQuiz = () => {
       handleFinalSubmit(updatedQuizData);
     } else {
       // Go to feature selection for features priority
-      setStep(4);
+      setStep(7);
     }
   };
 
@@ -142,27 +328,45 @@ const InsuranceQuiz = () => {
     setQuizData({ ...quizData, selectedFeatures: newFeatures });
   };
 
+  const handleOptionalCoverToggle = () => {
+    setQuizData({ ...quizData, includeOptionalCover: !quizData.includeOptionalCover });
+  };
+
   const handleFeatureSubmit = () => {
     handleFinalSubmit(quizData);
   };
 
+  const showAgeStepError = (message: string) => {
+    setAgeError(message);
+    setShowResults(false);
+    setStep(1);
+    setLoading(false);
+  };
+
   const handleFinalSubmit = async (finalQuizData: QuizData) => {
     setLoading(true);
 
+    // A shared or pasted link skips the age step, so its age is checked here: back to that step with the reason
+    const coverageError = finalQuizData.state && finalQuizData.age !== null
+      ? getAgeCoverageError(finalQuizData.age, finalQuizData.state)
+      : null;
+    if (coverageError) {
+      showAgeStepError(coverageError);
+      return;
+    }
+
     // Process and filter the insurance products
-    if (finalQuizData.state && finalQuizData.ageGroup && finalQuizData.gender && finalQuizData.priority) {
-      const sortBy = finalQuizData.priority === 'Price' ? 'priceRating' : 'finderScore';
+    if (finalQuizData.state && (finalQuizData.age !== null || finalQuizData.ageGroup) && finalQuizData.gender && finalQuizData.priority) {
       const selectedFeatures = finalQuizData.priority === 'Features' ? finalQuizData.selectedFeatures : [];
-      
-      const filtered = getFilteredAndSortedProducts(
-        insuranceData,
-        finalQuizData.state,
-        finalQuizData.gender,
-        finalQuizData.ageGroup,
-        sortBy,
-        selectedFeatures,
-        finalQuizData.priority
-      );
+      let filtered: ProcessedInsuranceProduct[];
+      try {
+        filtered = getQuizResults(insuranceData, finalQuizData, scoringProfile);
+      } catch (error) {
+        // e.g. no premium data for this gender's columns
+        console.error('Error ranking insurance products:', error);
+        showAgeStepError(`Sorry, we can't compare policies for these answers${error instanceof Error ? `: ${error.message}` : ''}.`);
+        return;
+      }
       
       // Log feature sub-scores for the first few products (for verification)
       if (filtered.length > 0) {
@@ -182,36 +386,21 @@ const InsuranceQuiz = () => {
         })));
         
         // Log weighting explanation
-        if (selectedFeatures.length > 0) {
-          let weightingExplanation = '';
-          switch (selectedFeatures.length) {
-            case 1:
-              weightingExplanation = '60% weight for selected feature, 40% distributed among remaining 4 features (10% each)';
-              break;
-            case 2:
-              weightingExplanation = '40% weight each for selected features, 20% distributed among remaining 3 features (6.67% each)';
-              break;
-            case 3:
-              weightingExplanation = '30% weight each for selected features, 10% distributed among remaining 2 features (5% each)';
-              break;
-            case 4:
-              weightingExplanation = '25% weight each for selected features, 0% for non-selected feature';
-              break;
-            case 5:
-              weightingExplanation = '20% weight each for all 5 features (equal weighting)';
-              break;
-          }
-          console.log('Feature Score Weighting:', weightingExplanation);
+        const toPercent = (weight: number) => `${Math.round(weight * 10000) / 100}%`;
+        const tier = scoringProfile.selectedFeatureWeights[String(selectedFeatures.length)];
+        if (selectedFeatures.length > 0 && tier) {
+          const remainingCount = getScoredFeatures(selectedFeatures).length - selectedFeatures.length;
+          const remainingShare = remainingCount > 0 ? `, ${toPercent(tier.remaining)} distributed among remaining ${remainingCount} feature${remainingCount !== 1 ? 's' : ''}` : '';
+          console.log('Feature Score Weighting:', `${toPercent(tier.selected)} weight each for selected features${remainingShare}`);
+        } else if (selectedFeatures.length > 0) {
+          console.log('Feature Score Weighting:', `${toPercent(1 / selectedFeatures.length)} weight each for selected features`);
         } else {
-          console.log('Feature Score Weighting: Equal weighting (20% each) - no specific features selected');
+          console.log('Feature Score Weighting: Equal weighting across core features - no specific features selected');
         }
         
         // Log Dynamic Finder Score explanation
-        if (finalQuizData.priority === 'Price') {
-          console.log('Dynamic Finder Score: 85% Price Rating + 15% Feature Score');
-        } else {
-          console.log('Dynamic Finder Score: 85% Feature Score + 15% Price Rating');
-        }
+        const { priceWeight, featureWeight } = scoringProfile.dynamicFinderScore[finalQuizData.priority];
+        console.log(`Dynamic Finder Score: ${toPercent(priceWeight)} Price Rating + ${toPercent(featureWeight)} Feature Score (scoring profile ${scoringProfile.version})`);
       }
       
       setFilteredProducts(filtered);
@@ -241,10 +430,29 @@ const InsuranceQuiz = () => {
     }, 900);
   };
 
+  // Step inputs showing the given answers
+  const fillAnswerInputs = (data: QuizData) => {
+    setPostcodeInput(data.postcode ?? '');
+    setPostcodeError(null);
+    setAgeInput(data.age !== null ? String(data.age) : '');
+    setDateOfBirthInput('');
+    setAgeError(null);
+    setVehicleMake(data.vehicle?.make ?? '');
+    setVehicleModel(data.vehicle?.model ?? '');
+    setVehicleYear(data.vehicle ? String(data.vehicle.year) : '');
+    setVehicleValueInput(data.vehicle?.value ? String(data.vehicle.value) : '');
+    setVehicleError(null);
+  };
+
   const resetQuiz = () => {
     setStep(0);
     setShowResults(false);
-    setQuizData({ state: null, ageGroup: null, gender: null, priority: null, selectedFeatures: [] });
+    setQuizData(emptyQuizData);
+    fillAnswerInputs(emptyQuizData);
+    setOpenedSavedComparison(null);
+    setSavedComparisonMessage(null);
+    setTrayProductIds([]);
+    setShowTrayComparison(false);
     setFilteredProducts([]);
     setScoresLoading({
       priceRating: true,
@@ -253,8 +461,95 @@ const InsuranceQuiz = () => {
     });
   };
 
+  // Quiz progress is kept in the address bar (see utils/comparisonUrl.ts): each step and the
+  // results get their own history entry, while changes within one (features, sorting) replace it
+  useEffect(() => {
+    const url = getQuizLocationUrl({ quizData, step, showResults, sort: { column: sortColumn, direction: sortDirection } });
+    const view = getLocationView(step, showResults);
+    if (url !== `${window.location.pathname}${window.location.search}`) {
+      if (view !== locationViewRef.current) {
+        window.history.pushState(null, '', url);
+      } else {
+        window.history.replaceState(null, '', url);
+      }
+    }
+    locationViewRef.current = view;
+  }, [quizData, step, showResults, sortColumn, sortDirection]);
+
+  // Back / forward restore the quiz from the address bar
+  useEffect(() => {
+    const handlePopState = () => {
+      const location = parseQuizLocation(window.location.pathname, window.location.search);
+      locationViewRef.current = getLocationView(location.step, location.showResults);
+      setQuizData(location.quizData);
+      fillAnswerInputs(location.quizData);
+      setStep(location.step);
+      setShowResults(location.showResults);
+      setSortColumn(location.sort.column);
+      setSortDirection(location.sort.direction);
+      setLoading(location.showResults);
+      setResultsPending(location.showResults);
+      setOpenedSavedComparison(null);
+      setSavedComparisonMessage(null);
+    };
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  // Once loading has finished either way: a failed load shows its error, an empty dataset the no-products message
+  useEffect(() => {
+    if (!resultsPending || (!dataLoaded && !loadError)) {
+      return;
+    }
+    setResultsPending(false);
+    if (loadError) {
+      setLoading(false);
+    } else {
+      handleFinalSubmit(quizData);
+    }
+  }, [resultsPending, dataLoaded, loadError]);
+
+  // Saved comparisons: storage errors (full or blocked) are shown instead of the saved message
+  const updateSavedComparisons = (update: () => SavedComparison[], message: string | null = null) => {
+    try {
+      setSavedComparisons(update());
+      setSavedComparisonMessage(message);
+    } catch (error) {
+      setSavedComparisonMessage(error instanceof Error ? error.message : 'Could not update saved comparisons');
+    }
+  };
+
+  const handleSaveComparison = () => {
+    updateSavedComparisons(
+      () => saveComparison(quizData, filteredProducts, datasetVersion, { column: sortColumn, direction: sortDirection }),
+      'Comparison saved. Reopen it from the first quiz step to see what has changed.'
+    );
+  };
+
+  // Re-rank the saved answers against today's data; the changes panel compares the two
+  const handleOpenSavedComparison = (saved: SavedComparison) => {
+    setOpenedSavedComparison(saved);
+    setSavedComparisonMessage(null);
+    setQuizData(saved.quizData);
+    fillAnswerInputs(saved.quizData);
+    setSortColumn(saved.sort.column);
+    setSortDirection(saved.sort.direction);
+    setShowResults(true);
+    setLoading(true);
+    setResultsPending(true);
+  };
+
+  const handleRenameSubmit = (id: string) => {
+    updateSavedComparisons(() => renameSavedComparison(id, renameInput));
+    setRenamingComparisonId(null);
+  };
+
+  const handleDeleteSavedComparison = (id: string) => {
+    updateSavedComparisons(() => deleteSavedComparison(id));
+  };
+
   // Helper functions for modal with timeout
-  const showModal = (product: ProcessedInsuranceProduct, position: { x: number; y: number }) => {
+  const showModal = (product: RatedProduct, position: { x: number; y: number }) => {
     if (modalTimeoutId) {
       clearTimeout(modalTimeoutId);
       setModalTimeoutId(null);
@@ -280,20 +575,7 @@ const InsuranceQuiz = () => {
     }
   };
 
-  // Sponsored products logic
-  const sponsoredProducts = [
-    'Coles Comprehensive',
-    'Qantas Comprehensive', 
-    'Bingle Comprehensive',
-    'Huddle Comprehensive',
-    'Kogan Comprehensive'
-  ];
-
-  const isSponsoredProduct = (productName: string): boolean => {
-    return sponsoredProducts.includes(productName);
-  };
-
-  const getComparisonProducts = (selectedProduct: ProcessedInsuranceProduct): ProcessedInsuranceProduct[] => {
+  const getComparisonProducts = (selectedProduct: RatedProduct): RatedProduct[] => {
     // Get sponsored products that are available in current results
     const availableSponsored = filteredProducts.filter(product => 
       isSponsoredProduct(product.name) && product.id !== selectedProduct.id
@@ -322,14 +604,25 @@ const InsuranceQuiz = () => {
     }
   };
 
-  const handleContinueComparison = (product: ProcessedInsuranceProduct) => {
+  const handleContinueComparison = (product: RatedProduct) => {
     setSelectedProductForComparison(product);
     setShowComparisonModal(true);
   };
 
+  const handleTrayToggle = (productId: string) => {
+    if (trayProductIds.includes(productId)) {
+      setTrayProductIds(trayProductIds.filter(id => id !== productId));
+      if (trayProducts.length <= 2) {
+        setShowTrayComparison(false);
+      }
+    } else if (trayProducts.length < MAX_COMPARED_PRODUCTS) {
+      setTrayProductIds([...trayProducts.map(product => product.id), productId]);
+    }
+  };
+
 
   // Sort functionality
-  const handleSort = (column: 'priceRating' | 'featureScore' | 'dynamicFinderScore') => {
+  const handleSort = (column: ResultsSortColumn) => {
     if (sortColumn === column) {
       // Toggle direction if same column
       setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
@@ -340,51 +633,8 @@ const InsuranceQuiz = () => {
     }
   };
 
-  // Get sorted products
-  const getSortedProducts = () => {
-    if (!sortColumn) {
-      // Default sorting: sponsored products first, then by dynamic finder score
-      return [...filteredProducts].sort((a, b) => {
-        const aIsSponsored = isSponsoredProduct(a.name);
-        const bIsSponsored = isSponsoredProduct(b.name);
-        
-        // If one is sponsored and the other isn't, sponsored comes first
-        if (aIsSponsored && !bIsSponsored) return -1;
-        if (!aIsSponsored && bIsSponsored) return 1;
-        
-        // If both are sponsored or both are not sponsored, sort by dynamic finder score
-        return b.dynamicFinderScore - a.dynamicFinderScore;
-      });
-    }
-
-    return [...filteredProducts].sort((a, b) => {
-      let aValue: number;
-      let bValue: number;
-
-      switch (sortColumn) {
-        case 'priceRating':
-          aValue = a.priceRating;
-          bValue = b.priceRating;
-          break;
-        case 'featureScore':
-          aValue = a.averageFeatureScore;
-          bValue = b.averageFeatureScore;
-          break;
-        case 'dynamicFinderScore':
-          aValue = a.dynamicFinderScore;
-          bValue = b.dynamicFinderScore;
-          break;
-        default:
-          return 0;
-      }
-
-      if (sortDirection === 'asc') {
-        return aValue - bValue;
-      } else {
-        return bValue - aValue;
-      }
-    });
-  };
+  // Results in the order the table shows them
+  const getSortedProducts = () => sortResults(filteredProducts, { column: sortColumn, direction: sortDirection });
 
   // Style objects
   const containerStyle: React.CSSProperties = {
@@ -724,8 +974,56 @@ const InsuranceQuiz = () => {
     );
   };
 
+  // Year-over-year premium movement, shown under the price rating when earlier data exists
+  const PriceTrendIndicator = ({ trend }: { trend: PriceTrend | null }) => {
+    if (!trend) return null;
+
+    // Changes under half a percent are shown as steady
+    const direction = trend.changePercent >= 0.5 ? 'up' : trend.changePercent <= -0.5 ? 'down' : 'flat';
+    const styles = {
+      up: { symbol: '▲', color: '#dc2626' }, // Premium rose
+      down: { symbol: '▼', color: '#16a34a' }, // Premium fell
+      flat: { symbol: '●', color: '#6b7280' },
+    }[direction];
+
+    return (
+      <div
+        title={`Premium ${direction === 'flat' ? 'steady' : direction} ${Math.abs(trend.changePercent)}% since ${trend.previousYear}${trend.rankChange !== 0 ? `, ${Math.abs(trend.rankChange)} place${Math.abs(trend.rankChange) === 1 ? '' : 's'} ${trend.rankChange > 0 ? 'higher' : 'lower'} in price ranking` : ''}`}
+        style={{ fontSize: '0.75rem', fontWeight: '600', color: styles.color, marginTop: '4px', whiteSpace: 'nowrap' }}
+      >
+        {styles.symbol} {Math.abs(trend.changePercent).toFixed(1)}% vs {trend.previousYear}
+      </div>
+    );
+  };
+
+  // Why a usage-based policy was boosted or flagged for the customer's annual km
+  const UsageFitNote = ({ fit }: { fit: UsageFit | null }) => {
+    if (!fit || fit.effect === 'exclude') return null;
+
+    return (
+      <div style={{ fontSize: '0.75rem', marginTop: '6px', color: fit.effect === 'boost' ? '#16a34a' : '#b45309' }}>
+        {fit.effect === 'boost' ? '🛣️' : '⚠️'} {fit.reason}
+      </div>
+    );
+  };
+
+  // Adds a product to (or removes it from) the comparison tray
+  const CompareToggle = ({ product }: { product: RatedProduct }) => {
+    const selected = trayProductIds.includes(product.id);
+    const trayFull = !selected && trayProducts.length >= MAX_COMPARED_PRODUCTS;
+    return (
+      <label
+        title={trayFull ? `You can compare up to ${MAX_COMPARED_PRODUCTS} products` : undefined}
+        style={{ display: 'flex', alignItems: 'center', justifyContent: 'center', gap: '4px', marginTop: '6px', fontSize: '0.75rem', color: trayFull ? '#9ca3af' : '#374151', cursor: trayFull ? 'not-allowed' : 'pointer', whiteSpace: 'nowrap' }}
+      >
+        <input type="checkbox" checked={selected} disabled={trayFull} onChange={() => handleTrayToggle(product.id)} />
+        Compare
+      </label>
+    );
+  };
+
   // Mobile Card Component for responsive design
-  const MobileProductCard = ({ product }: { product: ProcessedInsuranceProduct }) => {
+  const MobileProductCard = ({ product }: { product: RatedProduct }) => {
     return (
       <div style={{
         backgroundColor: 'white',
@@ -737,7 +1035,7 @@ const InsuranceQuiz = () => {
       }}>
         {/* Product Header */}
         <div style={{ display: 'flex', alignItems: 'center', marginBottom: '16px' }}>
-          <ProductLogo providerId={product.providerId} productName={product.name} />
+          <ProductLogo logoUrl={providerLogoUrls[product.providerId] ?? null} productName={product.name} />
         </div>
 
         {/* Scores Section */}
@@ -872,44 +1170,11 @@ const InsuranceQuiz = () => {
     );
   };
 
-  // Logo component with fallback
-  const ProductLogo = ({ providerId, productName }: { providerId: string; productName: string }) => {
-    const [logoSrc, setLogoSrc] = useState<string | null>(null);
+  // Provider logo from the catalogue, or the product's initials when there is none or it fails to load
+  const ProductLogo = ({ logoUrl, productName }: { logoUrl: string | null; productName: string }) => {
     const [hasError, setHasError] = useState(false);
 
-    // Try different extensions if the first one fails
-    useEffect(() => {
-      const extensions = ['png', 'jpg', 'jpeg', 'webp', 'svg'];
-      let currentIndex = 0;
-
-      const tryNextExtension = () => {
-        if (currentIndex >= extensions.length) {
-          setHasError(true);
-          return;
-        }
-
-        const testSrc = `/logos/${providerId}.${extensions[currentIndex]}`;
-        const img = new Image();
-        
-        img.onload = () => {
-          setLogoSrc(testSrc);
-          setHasError(false);
-        };
-        
-        img.onerror = () => {
-          currentIndex++;
-          tryNextExtension();
-        };
-        
-        img.src = testSrc;
-      };
-
-      setHasError(false);
-      setLogoSrc(null);
-      tryNextExtension();
-    }, [providerId]);
-
-    if (hasError || !logoSrc) {
+    if (hasError || !logoUrl) {
       // Return a placeholder or company initials
       const initials = productName.split(' ').map(word => word[0]).join('').substring(0, 2).toUpperCase();
       return (
@@ -936,7 +1201,7 @@ const InsuranceQuiz = () => {
     return (
       <div style={{ display: 'flex', alignItems: 'center', gap: '12px' }}>
         <img
-          src={logoSrc}
+          src={logoUrl}
           alt={`${productName} logo`}
           style={{
             width: '60px',
@@ -959,7 +1224,7 @@ const InsuranceQuiz = () => {
     children, 
     centered = false 
   }: { 
-    column: 'priceRating' | 'featureScore' | 'dynamicFinderScore';
+    column: ResultsSortColumn;
     children: React.ReactNode;
     centered?: boolean;
   }) => {
@@ -1066,9 +1331,15 @@ const InsuranceQuiz = () => {
   const ScoreExplanationModal = () => {
     if (!showScoreModal || !hoveredProduct) return null;
 
-    const isPricePriority = quizData.priority === 'Price';
-    const pricePercentage = isPricePriority ? 85 : 15;
-    const featurePercentage = isPricePriority ? 15 : 85;
+    const split = scoringProfile.dynamicFinderScore[quizData.priority || 'Price'];
+    const pricePercentage = Math.round(split.priceWeight * 100);
+    const featurePercentage = Math.round(split.featureWeight * 100);
+
+    // 'Other' is priced from both male and female columns; show how far apart they are (not the prices)
+    const priceRange = isPricedProduct(hoveredProduct) ? hoveredProduct.priceRange : null;
+    const genderPriceSpread = priceRange && priceRange.low > 0
+      ? Math.round(((priceRange.high - priceRange.low) / priceRange.low) * 100)
+      : null;
 
     return (
       <div 
@@ -1128,6 +1399,21 @@ const InsuranceQuiz = () => {
           Your priority: <strong>{quizData.priority}</strong><br/>
           Result: <strong>{hoveredProduct.dynamicFinderScore.toFixed(1)}</strong>
         </div>
+
+        {quizData.gender === 'Other' && (
+          <div style={{ 
+            marginTop: '8px',
+            padding: '8px', 
+            backgroundColor: '#fffbeb', 
+            border: '1px solid #fde68a',
+            borderRadius: '4px',
+            fontSize: '0.75rem',
+            color: '#92400e'
+          }}>
+            Gender "Other": price rating is based on <strong>{OTHER_GENDER_PRICING_DESCRIPTIONS[scoringProfile.otherGenderPricing]}</strong>.
+            {genderPriceSpread !== null && ` Male and female premiums for this product differ by ${genderPriceSpread}%.`}
+          </div>
+        )}
       </div>
     );
   };
@@ -1192,7 +1478,7 @@ const InsuranceQuiz = () => {
             }}>
               <div style={{ textAlign: 'center', marginBottom: '1rem' }}>
                 <ProductLogo 
-                  providerId={selectedProductForComparison.providerId} 
+                  logoUrl={providerLogoUrls[selectedProductForComparison.providerId] ?? null} 
                   productName={selectedProductForComparison.name} 
                 />
                 <div style={{ marginTop: '0.5rem', fontSize: '0.875rem', color: '#3b82f6', fontWeight: 'bold' }}>
@@ -1243,7 +1529,7 @@ const InsuranceQuiz = () => {
               }}>
                 <div style={{ textAlign: 'center', marginBottom: '1rem' }}>
                   <ProductLogo 
-                    providerId={product.providerId} 
+                    logoUrl={providerLogoUrls[product.providerId] ?? null} 
                     productName={product.name} 
                   />
                   <div style={{ marginTop: '0.5rem', fontSize: '0.875rem', color: '#10b981', fontWeight: 'bold' }}>
@@ -1332,32 +1618,197 @@ const InsuranceQuiz = () => {
     );
   };
 
-  const getFeatureDisplayName = (feature: SelectedFeature): string => {
-    const featureNames: Record<SelectedFeature, string> = {
-      'STORM': '🌩️ Storm Coverage',
-      'WINDSCREEN': '🪟 Windscreen Coverage',
-      'PERSONAL_EFFECTS': '👜 Personal Effects Coverage',
-      'ACCIDENTAL_DAMAGE': '🚗 Accidental Damage Coverage',
-      'NEW_CAR_REPLACEMENT': '🆕 New Car Replacement',
-    };
-    return featureNames[feature];
-  };
+  // Side-by-side view of the products in the comparison tray
+  const ProductComparisonView = () => {
+    if (!showTrayComparison || trayProducts.length < 2) return null;
+
+    const rows = buildComparisonRows(trayProducts);
+    const differingCount = rows.filter(row => !row.identical).length;
+    const ratingRows: { label: string; getValue: (product: RatedProduct) => string }[] = [
+      { label: 'Price Rating', getValue: product => `${product.priceRating.toFixed(1)}/9.9` },
+      { label: 'Estimated Annual Cost Rating', getValue: product => `${product.annualCostRating.toFixed(1)}/9.9` },
+      ...(payingMonthly ? [{ label: 'Monthly Equivalent Rating', getValue: (product: RatedProduct) => product.monthlyEquivalentRating !== null ? `${product.monthlyEquivalentRating.toFixed(1)}/9.9` : 'Not available' }] : []),
+      { label: 'Feature Score', getValue: product => `${product.averageFeatureScore.toFixed(1)}/10.0` },
+      { label: 'Dynamic Finder Score', getValue: product => product.dynamicFinderScore.toFixed(1) },
+    ];
+    const differenceCellStyle = (identical: boolean): React.CSSProperties => ({
+      ...tdStyle,
+      backgroundColor: identical ? 'white' : '#fef9c3',
+    });
 
-  const getFeatureDescription = (feature: SelectedFeature): string => {
-    const descriptions: Record<SelectedFeature, string> = {
-      'STORM': 'Protection against storm and weather damage',
-      'WINDSCREEN': 'Coverage for windscreen repairs and replacement',
-      'PERSONAL_EFFECTS': 'Coverage for personal items in your vehicle',
-      'ACCIDENTAL_DAMAGE': 'Protection against accidental damage to your vehicle',
-      'NEW_CAR_REPLACEMENT': 'Get a new car if yours is written off in the first few years',
-    };
-    return descriptions[feature];
+    return (
+      <div style={{
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        width: '100%',
+        height: '100%',
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 1000,
+      }}>
+        <div style={{
+          backgroundColor: 'white',
+          borderRadius: '12px',
+          padding: '2rem',
+          maxWidth: '1100px',
+          width: '95%',
+          maxHeight: '85vh',
+          overflow: 'auto',
+        }}>
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '1rem' }}>
+            <h2 style={{ fontSize: '1.5rem', fontWeight: 'bold', color: '#1f2937', margin: 0 }}>
+              Side-by-Side Comparison
+            </h2>
+            <button
+              onClick={() => setShowTrayComparison(false)}
+              style={{
+                background: 'none',
+                border: 'none',
+                fontSize: '1.5rem',
+                cursor: 'pointer',
+                color: '#6b7280'
+              }}
+            >
+              ×
+            </button>
+          </div>
+
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '1rem', fontSize: '0.875rem', color: '#4b5563' }}>
+            <span>
+              <span style={{ backgroundColor: '#fef9c3', padding: '2px 6px', borderRadius: '4px' }}>Highlighted</span> rows differ between products ({differingCount} of {rows.length} features)
+            </span>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '6px', cursor: 'pointer' }}>
+              <input type="checkbox" checked={hideIdenticalRows} onChange={() => setHideIdenticalRows(!hideIdenticalRows)} />
+              Hide identical rows
+            </label>
+          </div>
+
+          <table style={tableStyle}>
+            <thead>
+              <tr>
+                <th style={thStyle}></th>
+                {trayProducts.map((product) => (
+                  <th key={product.id} style={{ ...thStyle, textAlign: 'center' }}>
+                    <ProductLogo logoUrl={providerLogoUrls[product.providerId] ?? null} productName={product.name} />
+                    <div style={{ marginTop: '0.5rem', fontSize: '0.75rem', textTransform: 'none', color: '#1f2937' }}>{product.name}</div>
+                    <button
+                      onClick={() => handleTrayToggle(product.id)}
+                      style={{ marginTop: '4px', background: 'none', border: 'none', color: '#b91c1c', fontSize: '0.75rem', textDecoration: 'underline', cursor: 'pointer' }}
+                    >
+                      Remove
+                    </button>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {ratingRows.map(({ label, getValue }) => (
+                <tr key={label}>
+                  <td style={{ ...tdStyle, fontWeight: '600' }}>{label}</td>
+                  {trayProducts.map((product) => (
+                    <td key={product.id} style={{ ...tdStyle, textAlign: 'center', fontWeight: 'bold' }}>{getValue(product)}</td>
+                  ))}
+                </tr>
+              ))}
+              {rows.filter(row => !hideIdenticalRows || !row.identical).map((row) => (
+                <tr key={row.field}>
+                  <td style={{ ...differenceCellStyle(row.identical), fontWeight: '600' }}>{row.label}</td>
+                  {row.values.map((value, index) => (
+                    <td key={trayProducts[index].id} style={{ ...differenceCellStyle(row.identical), fontSize: '0.875rem' }}>{value}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {hideIdenticalRows && differingCount === 0 && (
+            <p style={{ marginTop: '1rem', textAlign: 'center', color: '#6b7280' }}>These products have the same features.</p>
+          )}
+        </div>
+      </div>
+    );
   };
 
+  const renderComparisonTray = () => (
+    <div style={{
+      position: 'sticky',
+      bottom: 0,
+      marginTop: '1rem',
+      padding: '0.75rem 1rem',
+      backgroundColor: 'white',
+      borderRadius: '0.5rem',
+      boxShadow: '0 -4px 6px -1px rgba(0, 0, 0, 0.1)',
+      display: 'flex',
+      alignItems: 'center',
+      gap: '0.5rem',
+      flexWrap: 'wrap',
+    }}>
+      <strong style={{ fontSize: '0.875rem', color: '#1f2937' }}>
+        Compare ({trayProducts.length}/{MAX_COMPARED_PRODUCTS}):
+      </strong>
+      {trayProducts.map((product) => (
+        <span key={product.id} style={{ display: 'inline-flex', alignItems: 'center', gap: '4px', padding: '4px 8px', backgroundColor: '#eff6ff', borderRadius: '12px', fontSize: '0.75rem', color: '#1e40af' }}>
+          {product.name}
+          <button
+            onClick={() => handleTrayToggle(product.id)}
+            aria-label={`Remove ${product.name} from comparison`}
+            style={{ background: 'none', border: 'none', color: '#1e40af', cursor: 'pointer', padding: 0, fontSize: '0.875rem' }}
+          >
+            ×
+          </button>
+        </span>
+      ))}
+      <div style={{ marginLeft: 'auto', display: 'flex', gap: '0.5rem' }}>
+        <button onClick={() => setTrayProductIds([])} style={{ ...backButtonStyle, border: '1px solid #d1d5db' }}>
+          Clear
+        </button>
+        <button
+          onClick={() => setShowTrayComparison(true)}
+          disabled={trayProducts.length < 2}
+          title={trayProducts.length < 2 ? 'Pick at least 2 products to compare' : undefined}
+          style={{ ...resetButtonStyle, marginBottom: 0, opacity: trayProducts.length < 2 ? 0.5 : 1, cursor: trayProducts.length < 2 ? 'not-allowed' : 'pointer' }}
+        >
+          Compare Side by Side
+        </button>
+      </div>
+    </div>
+  );
+
   const renderStateSelection = () => (
     <div>
-      <h2 style={sectionTitleStyle}>Select Your State</h2>
-      <p style={sectionDescStyle}>Choose the state where you currently reside</p>
+      <h2 style={sectionTitleStyle}>Where Do You Live?</h2>
+      <p style={sectionDescStyle}>Enter your postcode, or choose the state where you currently reside</p>
+      <div style={{ display: 'flex', gap: '0.5rem', marginBottom: '1rem' }}>
+        <input
+          type="text"
+          inputMode="numeric"
+          maxLength={4}
+          value={postcodeInput}
+          onChange={(e) => {
+            setPostcodeInput(e.target.value);
+            setPostcodeError(null);
+          }}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handlePostcodeSubmit();
+          }}
+          placeholder="Postcode, e.g. 2000"
+          style={{ ...buttonStyle, margin: 0, cursor: 'text', boxSizing: 'border-box' }}
+        />
+        <button
+          onClick={handlePostcodeSubmit}
+          disabled={postcodeInput.trim() === ''}
+          style={{ ...continueButtonStyle, marginTop: 0, whiteSpace: 'nowrap' }}
+        >
+          Continue
+        </button>
+      </div>
+      {postcodeError && (
+        <p style={{ marginBottom: '1rem', padding: '0.75rem', backgroundColor: '#fef2f2', border: '1px solid #fecaca', borderRadius: '0.5rem', color: '#b91c1c', fontSize: '0.875rem' }}>
+          {postcodeError}
+        </p>
+      )}
       <div style={gridStyle}>
         {states.map((state) => (
           <button
@@ -1378,15 +1829,126 @@ const InsuranceQuiz = () => {
     </div>
   );
 
+  const formatSavedDate = (savedAt: string): string =>
+    new Date(savedAt).toLocaleDateString('en-AU', { day: 'numeric', month: 'short', year: 'numeric' });
+
+  const renderSavedComparisons = () => (
+    <div style={{ marginTop: '1.5rem' }}>
+      <h3 style={{ fontSize: '1rem', fontWeight: '600', color: '#1f2937', marginBottom: '0.5rem' }}>Your Saved Comparisons</h3>
+      {savedComparisonMessage && (
+        <p style={{ marginBottom: '0.5rem', fontSize: '0.875rem', color: '#374151' }}>{savedComparisonMessage}</p>
+      )}
+      <div style={flexColStyle}>
+        {savedComparisons.map((saved) => (
+          <div key={saved.id} style={{ backgroundColor: 'white', borderRadius: '0.5rem', padding: '0.75rem', boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)' }}>
+            {renamingComparisonId === saved.id ? (
+              <div style={{ display: 'flex', gap: '0.5rem' }}>
+                <input
+                  type="text"
+                  value={renameInput}
+                  onChange={(e) => setRenameInput(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') handleRenameSubmit(saved.id);
+                    if (e.key === 'Escape') setRenamingComparisonId(null);
+                  }}
+                  autoFocus
+                  style={{ flex: 1, padding: '0.375rem 0.5rem', border: '1px solid #d1d5db', borderRadius: '0.375rem', fontSize: '0.875rem' }}
+                />
+                <button onClick={() => handleRenameSubmit(saved.id)} style={{ ...resetButtonStyle, marginBottom: 0 }}>
+                  Save
+                </button>
+              </div>
+            ) : (
+              <div style={{ fontWeight: '500', color: '#374151' }}>{saved.name}</div>
+            )}
+            <div style={{ fontSize: '0.75rem', color: '#6b7280', margin: '0.25rem 0 0.5rem' }}>
+              Saved {formatSavedDate(saved.savedAt)} • {saved.products.length} products
+            </div>
+            <div style={{ display: 'flex', gap: '0.5rem' }}>
+              <button onClick={() => handleOpenSavedComparison(saved)} style={{ ...resetButtonStyle, marginBottom: 0 }}>
+                Open
+              </button>
+              <button
+                onClick={() => {
+                  setRenamingComparisonId(saved.id);
+                  setRenameInput(saved.name);
+                }}
+                style={{ ...backButtonStyle, border: '1px solid #d1d5db' }}
+              >
+                Rename
+              </button>
+              <button onClick={() => handleDeleteSavedComparison(saved.id)} style={{ ...backButtonStyle, border: '1px solid #d1d5db', color: '#b91c1c' }}>
+                Delete
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+
   const renderAgeSelection = () => (
     <div>
-      <h2 style={sectionTitleStyle}>Select Your Age Group</h2>
-      <p style={sectionDescStyle}>Choose your age bracket</p>
+      <h2 style={sectionTitleStyle}>How Old Are You?</h2>
+      <p style={sectionDescStyle}>Enter your age or date of birth so we can match premiums to your exact age</p>
       <div style={flexColStyle}>
-        {ageGroups.map((age) => (
+        <label style={{ fontSize: '0.875rem', fontWeight: '500', color: '#374151' }}>
+          Age
+          <input
+            type="number"
+            min={0}
+            inputMode="numeric"
+            value={ageInput}
+            onChange={(e) => {
+              setAgeInput(e.target.value);
+              setDateOfBirthInput('');
+              setAgeError(null);
+            }}
+            placeholder="e.g. 34"
+            style={{ ...buttonStyle, display: 'block', marginTop: '0.5rem', cursor: 'text', boxSizing: 'border-box' }}
+          />
+        </label>
+        <div style={{ textAlign: 'center', fontSize: '0.875rem', color: '#6b7280' }}>or</div>
+        <label style={{ fontSize: '0.875rem', fontWeight: '500', color: '#374151' }}>
+          Date of birth
+          <input
+            type="date"
+            value={dateOfBirthInput}
+            onChange={(e) => {
+              setDateOfBirthInput(e.target.value);
+              setAgeInput('');
+              setAgeError(null);
+            }}
+            style={{ ...buttonStyle, display: 'block', marginTop: '0.5rem', cursor: 'text', boxSizing: 'border-box' }}
+          />
+        </label>
+      </div>
+      {ageError && (
+        <p style={{ marginTop: '1rem', padding: '0.75rem', backgroundColor: '#fef2f2', border: '1px solid #fecaca', borderRadius: '0.5rem', color: '#b91c1c', fontSize: '0.875rem' }}>
+          {ageError}
+        </p>
+      )}
+      <div style={{ textAlign: 'center' }}>
+        <button
+          onClick={handleAgeSubmit}
+          disabled={ageInput.trim() === '' && dateOfBirthInput === ''}
+          style={continueButtonStyle}
+        >
+          Continue
+        </button>
+      </div>
+    </div>
+  );
+
+  const renderGenderSelection = () => (
+    <div>
+      <h2 style={sectionTitleStyle}>Select Your Gender</h2>
+      <p style={sectionDescStyle}>Choose your gender</p>
+      <div style={flexColStyle}>
+        {genders.map((gender) => (
           <button
-            key={age}
-            onClick={() => handleAgeSelect(age)}
+            key={gender}
+            onClick={() => handleGenderSelect(gender)}
             style={buttonStyle}
             onMouseEnter={(e) => {
               e.currentTarget.style.backgroundColor = '#fef3c7';
@@ -1395,22 +1957,116 @@ const InsuranceQuiz = () => {
               e.currentTarget.style.backgroundColor = 'white';
             }}
           >
-            {age}
+            {gender}
           </button>
         ))}
       </div>
     </div>
   );
 
-  const renderGenderSelection = () => (
+  const selectedVehicleModel = findVehicleModel(vehicleMake, vehicleModel);
+
+  const renderVehicleSelection = () => (
     <div>
-      <h2 style={sectionTitleStyle}>Select Your Gender</h2>
-      <p style={sectionDescStyle}>Choose your gender</p>
+      <h2 style={sectionTitleStyle}>Tell Us About Your Car</h2>
+      <p style={sectionDescStyle}>We use this to check which benefits your car qualifies for</p>
       <div style={flexColStyle}>
-        {genders.map((gender) => (
+        <label style={{ fontSize: '0.875rem', fontWeight: '500', color: '#374151' }}>
+          Make
+          <select
+            value={vehicleMake}
+            onChange={(e) => {
+              setVehicleMake(e.target.value);
+              setVehicleModel('');
+              setVehicleYear('');
+            }}
+            style={{ ...buttonStyle, display: 'block', marginTop: '0.5rem', boxSizing: 'border-box' }}
+          >
+            <option value="">Select a make</option>
+            {VEHICLE_CATALOGUE.map(({ make }) => (
+              <option key={make} value={make}>{make}</option>
+            ))}
+          </select>
+        </label>
+        <label style={{ fontSize: '0.875rem', fontWeight: '500', color: '#374151' }}>
+          Model
+          <select
+            value={vehicleModel}
+            disabled={vehicleMake === ''}
+            onChange={(e) => {
+              setVehicleModel(e.target.value);
+              setVehicleYear('');
+            }}
+            style={{ ...buttonStyle, display: 'block', marginTop: '0.5rem', boxSizing: 'border-box' }}
+          >
+            <option value="">Select a model</option>
+            {VEHICLE_CATALOGUE.find(({ make }) => make === vehicleMake)?.models.map(({ name }) => (
+              <option key={name} value={name}>{name}</option>
+            ))}
+          </select>
+        </label>
+        <label style={{ fontSize: '0.875rem', fontWeight: '500', color: '#374151' }}>
+          Year
+          <select
+            value={vehicleYear}
+            disabled={!selectedVehicleModel}
+            onChange={(e) => setVehicleYear(e.target.value)}
+            style={{ ...buttonStyle, display: 'block', marginTop: '0.5rem', boxSizing: 'border-box' }}
+          >
+            <option value="">Select a year</option>
+            {selectedVehicleModel && getVehicleModelYears(selectedVehicleModel).map(year => (
+              <option key={year} value={year}>{year}</option>
+            ))}
+          </select>
+        </label>
+        <label style={{ fontSize: '0.875rem', fontWeight: '500', color: '#374151' }}>
+          Approximate value in dollars (optional)
+          <input
+            type="number"
+            min={0}
+            inputMode="numeric"
+            value={vehicleValueInput}
+            onChange={(e) => {
+              setVehicleValueInput(e.target.value);
+              setVehicleError(null);
+            }}
+            placeholder="e.g. 25000"
+            style={{ ...buttonStyle, display: 'block', marginTop: '0.5rem', cursor: 'text', boxSizing: 'border-box' }}
+          />
+        </label>
+      </div>
+      {vehicleError && (
+        <p style={{ marginTop: '1rem', padding: '0.75rem', backgroundColor: '#fef2f2', border: '1px solid #fecaca', borderRadius: '0.5rem', color: '#b91c1c', fontSize: '0.875rem' }}>
+          {vehicleError}
+        </p>
+      )}
+      <div style={{ textAlign: 'center' }}>
+        <button
+          onClick={handleVehicleSubmit}
+          disabled={!selectedVehicleModel || vehicleYear === ''}
+          style={continueButtonStyle}
+        >
+          Continue
+        </button>
+        <button
+          onClick={handleVehicleSkip}
+          style={{ ...backButtonStyle, display: 'block', margin: '0.75rem auto 0' }}
+        >
+          Skip this step
+        </button>
+      </div>
+    </div>
+  );
+
+  const renderAnnualKmSelection = () => (
+    <div>
+      <h2 style={sectionTitleStyle}>How Far Do You Drive?</h2>
+      <p style={sectionDescStyle}>Roughly how many kilometres do you drive a year? Some policies are priced on distance</p>
+      <div style={flexColStyle}>
+        {annualKmOptions.map(({ label, km }) => (
           <button
-            key={gender}
-            onClick={() => handleGenderSelect(gender)}
+            key={label}
+            onClick={() => handleAnnualKmSelect(km)}
             style={buttonStyle}
             onMouseEnter={(e) => {
               e.currentTarget.style.backgroundColor = '#fef3c7';
@@ -1419,7 +2075,39 @@ const InsuranceQuiz = () => {
               e.currentTarget.style.backgroundColor = 'white';
             }}
           >
-            {gender}
+            {label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+
+  const renderPaymentFrequencySelection = () => (
+    <div>
+      <h2 style={sectionTitleStyle}>How Would You Like to Pay?</h2>
+      <p style={sectionDescStyle}>Paying monthly can cost more over a year, and not every policy allows it</p>
+      <div style={flexColStyle}>
+        {([
+          { frequency: 'Annual', title: '📆 Annually', description: 'One payment a year' },
+          { frequency: 'Monthly', title: '📅 Monthly', description: 'Only show policies I can pay monthly' },
+        ] as { frequency: PaymentFrequency; title: string; description: string }[]).map(({ frequency, title, description }) => (
+          <button
+            key={frequency}
+            onClick={() => handlePaymentFrequencySelect(frequency)}
+            style={priorityButtonStyle}
+            onMouseEnter={(e) => {
+              e.currentTarget.style.backgroundColor = '#fef3c7';
+            }}
+            onMouseLeave={(e) => {
+              e.currentTarget.style.backgroundColor = 'white';
+            }}
+          >
+            <div>
+              <div style={{ fontSize: '1.25rem', fontWeight: 'bold', marginBottom: '0.5rem' }}>{title}</div>
+              <div style={{ fontSize: '0.875rem', color: '#6b7280' }}>
+                {description}
+              </div>
+            </div>
           </button>
         ))}
       </div>
@@ -1474,23 +2162,31 @@ const InsuranceQuiz = () => {
       <h2 style={sectionTitleStyle}>Select Your Required Features</h2>
       <p style={sectionDescStyle}>Choose the features that are important to you (you can select multiple)</p>
       <div style={flexColStyle}>
-        {availableFeatures.map((feature) => (
+        {FEATURE_CATALOGUE.map((feature) => (
           <button
-            key={feature}
-            onClick={() => handleFeatureToggle(feature)}
-            style={featureButtonStyle(quizData.selectedFeatures.includes(feature))}
+            key={feature.id}
+            onClick={() => handleFeatureToggle(feature.id)}
+            style={featureButtonStyle(quizData.selectedFeatures.includes(feature.id))}
           >
             <div>
               <div style={{ fontSize: '1.125rem', fontWeight: 'bold', marginBottom: '0.25rem' }}>
-                {getFeatureDisplayName(feature)}
+                {feature.label}
               </div>
               <div style={{ fontSize: '0.875rem', opacity: 0.8 }}>
-                {getFeatureDescription(feature)}
+                {feature.description}
               </div>
             </div>
           </button>
         ))}
       </div>
+      <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginTop: '1rem', fontSize: '0.875rem', color: '#374151', cursor: 'pointer' }}>
+        <input
+          type="checkbox"
+          checked={quizData.includeOptionalCover}
+          onChange={handleOptionalCoverToggle}
+        />
+        Include products that offer these features as optional paid add-ons
+      </label>
       <div style={{ textAlign: 'center' }}>
         <button
           onClick={handleFeatureSubmit}
@@ -1502,20 +2198,118 @@ const InsuranceQuiz = () => {
     </div>
   );
 
+  // e.g. "NSW", "2000 (NSW)" or "2600 (ACT, priced as NSW)"
+  const getLocationLabel = () => {
+    if (!quizData.postcode) return quizData.state;
+    const region = resolvePostcode(quizData.postcode)?.region;
+    return region && region !== quizData.state
+      ? `${quizData.postcode} (${region}, priced as ${quizData.state})`
+      : `${quizData.postcode} (${quizData.state})`;
+  };
+
+  // Changes panel for a reopened saved comparison; long lists are cut short
+  const MAX_LISTED_CHANGES = 8;
+  const renderChangeList = (title: string, items: string[]) => items.length > 0 && (
+    <div style={{ marginTop: '0.5rem' }}>
+      <strong>{title}</strong>
+      <ul style={{ margin: '0.25rem 0 0', paddingLeft: '1.25rem' }}>
+        {items.slice(0, MAX_LISTED_CHANGES).map((item) => (
+          <li key={item}>{item}</li>
+        ))}
+        {items.length > MAX_LISTED_CHANGES && <li>...and {items.length - MAX_LISTED_CHANGES} more</li>}
+      </ul>
+    </div>
+  );
+
+  const renderSavedComparisonChanges = (saved: SavedComparison) => {
+    const changes = getSavedComparisonChanges(saved, filteredProducts, datasetVersion);
+    const hasChanges = changes.added.length + changes.removed.length + changes.rankChanges.length + changes.ratingChanges.length > 0;
+
+    return (
+      <div style={{
+        marginBottom: '1rem',
+        padding: '8px 12px',
+        backgroundColor: '#f5f3ff',
+        borderRadius: '6px',
+        fontSize: '0.875rem',
+        color: '#5b21b6',
+        border: '1px solid #ddd6fe'
+      }}>
+        🔖 <strong>Since you saved "{saved.name}" on {formatSavedDate(saved.savedAt)}:</strong>
+        {changes.datasetChanged === true && ' the insurance data has been updated.'}
+        {changes.datasetChanged === false && ' the insurance data is unchanged.'}
+        {!hasChanges && ' No changes to the products, their ranks or their ratings.'}
+        {renderChangeList('New products', changes.added.map(product => `${product.name} (now #${product.rank})`))}
+        {renderChangeList('No longer in your results', changes.removed.map(product => `${product.name} (was #${product.rank})`))}
+        {renderChangeList('Rank changes', changes.rankChanges.map(({ product, previousRank }) =>
+          `${product.name}: #${previousRank} → #${product.rank}`
+        ))}
+        {renderChangeList('Rating changes', changes.ratingChanges.map(({ product, rating, previous }) =>
+          `${product.name}: ${SAVED_RATING_LABELS[rating]} ${previous.toFixed(1)} → ${product[rating]!.toFixed(1)}`
+        ))}
+      </div>
+    );
+  };
+
   const renderResults = () => (
     <div>
       <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '1rem' }}>
         <div>
           <h2 style={sectionTitleStyle}>Insurance Comparison Results</h2>
           <p style={sectionDescStyle}>
-            {quizData.state} • {quizData.ageGroup} • {quizData.gender} • Sorted by {quizData.priority}
-            {quizData.selectedFeatures.length > 0 && ` • Filtered by ${quizData.selectedFeatures.length} feature${quizData.selectedFeatures.length !== 1 ? 's' : ''}`} • {filteredProducts.length} products found
+            {getLocationLabel()} • {quizData.age !== null ? `Age ${quizData.age}` : quizData.ageGroup} • {quizData.gender}
+            {quizData.gender === 'Other' && ` (priced on ${OTHER_GENDER_PRICING_DESCRIPTIONS[scoringProfile.otherGenderPricing]})`}
+            {quizData.vehicle && ` • ${quizData.vehicle.year} ${quizData.vehicle.make} ${quizData.vehicle.model}`}
+            {quizData.annualKm !== null && ` • ${annualKmOptions.find(option => option.km === quizData.annualKm)?.label ?? `${quizData.annualKm} km`} a year`}
+            {quizData.paymentFrequency === 'Monthly' && ' • Paying monthly'} • Sorted by {quizData.priority}
+            {quizData.selectedFeatures.length > 0 && ` • Filtered by ${quizData.selectedFeatures.length} feature${quizData.selectedFeatures.length !== 1 ? 's' : ''}`}
+            {quizData.selectedFeatures.length > 0 && quizData.includeOptionalCover && ' (optional add-ons included)'} • {filteredProducts.length} products found
           </p>
         </div>
-        <button onClick={resetQuiz} style={resetButtonStyle}>
-          New Search
-        </button>
+        <div style={{ display: 'flex', gap: '0.5rem' }}>
+          <button onClick={handleSaveComparison} style={{ ...resetButtonStyle, backgroundColor: '#10b981' }}>
+            Save Comparison
+          </button>
+          <button onClick={resetQuiz} style={resetButtonStyle}>
+            New Search
+          </button>
+        </div>
       </div>
+
+      {savedComparisonMessage && (
+        <p style={{ marginBottom: '1rem', fontSize: '0.875rem', color: '#374151' }}>{savedComparisonMessage}</p>
+      )}
+
+      {openedSavedComparison && renderSavedComparisonChanges(openedSavedComparison)}
+
+      {valueBasisRecommendation && (
+        <div style={{
+          marginBottom: '1rem',
+          padding: '8px 12px',
+          backgroundColor: '#f0fdf4',
+          borderRadius: '6px',
+          fontSize: '0.875rem',
+          color: '#166534',
+          border: '1px solid #bbf7d0'
+        }}>
+          🚗 <strong>We suggest {valueBasisRecommendation.basis.toLowerCase()} value cover.</strong> {valueBasisRecommendation.reason}
+          {' '}New car replacement is only listed for policies whose age limit covers your car.
+        </div>
+      )}
+
+      {excludedUsagePolicies.length > 0 && (
+        <div style={{
+          marginBottom: '1rem',
+          padding: '8px 12px',
+          backgroundColor: '#fffbeb',
+          borderRadius: '6px',
+          fontSize: '0.875rem',
+          color: '#92400e',
+          border: '1px solid #fde68a'
+        }}>
+          🛣️ <strong>Not shown:</strong> {excludedUsagePolicies.map(({ name }) => name).join(', ')} ({excludedUsagePolicies[0].fit!.reason}).
+        </div>
+      )}
       
       {filteredProducts.length > 0 ? (
         <div>
@@ -1528,10 +2322,10 @@ const InsuranceQuiz = () => {
             color: '#1e40af',
             border: '1px solid #dbeafe'
           }}>
-            💡 <strong>Tip:</strong> {isMobile ? 'Tap on Dynamic Finder Score badges to see details!' : 'Click on Price Rating, Feature Score, or Dynamic Finder Score column headers to sort the results!'}
+            💡 <strong>Tip:</strong> {isMobile ? 'Tap on Dynamic Finder Score badges to see details!' : 'Click on Price Rating, Estimated Annual Cost Rating, Feature Score, or Dynamic Finder Score column headers to sort the results!'}
             {!isMobile && sortColumn && (
               <span style={{ marginLeft: '8px' }}>
-                Currently sorted by <strong>{sortColumn === 'priceRating' ? 'Price Rating' : sortColumn === 'featureScore' ? 'Feature Score' : 'Dynamic Finder Score'}</strong> ({sortDirection === 'desc' ? 'highest first' : 'lowest first'})
+                Currently sorted by <strong>{sortColumn === 'priceRating' ? 'Price Rating' : sortColumn === 'annualCostRating' ? 'Estimated Annual Cost Rating' : sortColumn === 'monthlyEquivalentRating' ? 'Monthly Equivalent Rating' : sortColumn === 'featureScore' ? 'Feature Score' : 'Dynamic Finder Score'}</strong> ({sortDirection === 'desc' ? 'highest first' : 'lowest first'})
                 <button 
                   onClick={() => { setSortColumn(null); setSortDirection('desc'); }}
                   style={{
@@ -1557,6 +2351,8 @@ const InsuranceQuiz = () => {
               <tr>
                 <th style={thStyle}>Product</th>
                 <SortableHeader column="priceRating">Price Rating</SortableHeader>
+                <SortableHeader column="annualCostRating">Estimated Annual Cost Rating</SortableHeader>
+                {payingMonthly && <SortableHeader column="monthlyEquivalentRating">Monthly Equivalent Rating</SortableHeader>}
                 <SortableHeader column="featureScore">Feature Score</SortableHeader>
                 <SortableHeader column="dynamicFinderScore" centered>Dynamic Finder Score</SortableHeader>
                 <th style={thStyle}>Key Features</th>
@@ -1569,18 +2365,42 @@ const InsuranceQuiz = () => {
                   <tr key={product.id}>
                     <td style={tdStyle}>
                       <div style={{ display: 'flex', alignItems: 'center' }}>
-                        <ProductLogo providerId={product.providerId} productName={product.name} />
+                        <ProductLogo logoUrl={providerLogoUrls[product.providerId] ?? null} productName={product.name} />
                       </div>
+                      <UsageFitNote fit={product.usageFit} />
                     </td>
+                  <td style={tdStyle}>
+                    <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center' }}>
+                      {scoresLoading.priceRating ? (
+                        <CircularLoadingSpinner size={60} />
+                      ) : (
+                        <>
+                          <CircularProgress value={product.priceRating} maxValue={9.9} size={60} />
+                          <PriceTrendIndicator trend={product.priceTrend} />
+                        </>
+                      )}
+                    </div>
+                  </td>
                   <td style={tdStyle}>
                     <div style={{ display: 'flex', justifyContent: 'center' }}>
                       {scoresLoading.priceRating ? (
                         <CircularLoadingSpinner size={60} />
                       ) : (
-                        <CircularProgress value={product.priceRating} maxValue={9.9} size={60} />
+                        <CircularProgress value={product.annualCostRating} maxValue={9.9} size={60} />
                       )}
                     </div>
                   </td>
+                  {payingMonthly && (
+                    <td style={tdStyle}>
+                      <div style={{ display: 'flex', justifyContent: 'center' }}>
+                        {scoresLoading.priceRating ? (
+                          <CircularLoadingSpinner size={60} />
+                        ) : (
+                          <CircularProgress value={product.monthlyEquivalentRating ?? 1.0} maxValue={9.9} size={60} />
+                        )}
+                      </div>
+                    </td>
+                  )}
                   <td style={tdStyle}>
                     <div style={{ display: 'flex', justifyContent: 'center' }}>
                       {scoresLoading.featureScore ? (
@@ -1622,6 +2442,7 @@ const InsuranceQuiz = () => {
                         gap: '4px'
                       }}>
                         {product.features.newCarReplacement && <span style={{ color: '#374151' }}>• New Car Replacement</span>}
+                        {valueBasisRecommendation && product.vehicleFit?.offersRecommendedValueBasis && <span style={{ color: '#374151' }}>• {valueBasisRecommendation.basis} Value</span>}
                         {product.features.roadsideAssistance && <span style={{ color: '#374151' }}>• Roadside Assistance</span>}
                         {product.features.storm && <span style={{ color: '#374151' }}>• Storm Coverage</span>}
                         {product.features.windscreen && <span style={{ color: '#374151' }}>• Windscreen</span>}
@@ -1684,6 +2505,7 @@ const InsuranceQuiz = () => {
                           </button>
                         )}
                       </div>
+                      <CompareToggle product={product} />
                    </td>
                 </tr>
                 );
@@ -1692,6 +2514,8 @@ const InsuranceQuiz = () => {
           </table>
           
           </div>
+
+          {trayProducts.length > 0 && renderComparisonTray()}
           
           <div style={{ 
             marginTop: '1rem', 
@@ -1719,7 +2543,7 @@ const InsuranceQuiz = () => {
     </div>
   );
 
-  const maxSteps = quizData.priority === 'Features' ? 5 : 4;
+  const maxSteps = quizData.priority === 'Features' ? 8 : 7;
   const currentStep = showResults ? maxSteps : step;
 
   return (
@@ -1732,15 +2556,24 @@ const InsuranceQuiz = () => {
           </div>
         )}
         
-        {loading && renderLoading()}
-        {!loading && !showResults && step === 0 && renderStateSelection()}
-        {!loading && !showResults && step === 1 && renderAgeSelection()}
-        {!loading && !showResults && step === 2 && renderGenderSelection()}
-        {!loading && !showResults && step === 3 && renderPrioritySelection()}
-        {!loading && !showResults && step === 4 && renderFeatureSelection()}
-        {!loading && showResults && renderResults()}
+        {loadError && (
+          <p style={{ marginTop: '1rem', padding: '0.75rem', backgroundColor: '#fef2f2', border: '1px solid #fecaca', borderRadius: '0.5rem', color: '#b91c1c', fontSize: '0.875rem' }}>
+            {loadError}
+          </p>
+        )}
+        {!loadError && loading && renderLoading()}
+        {!loadError && !loading && !showResults && step === 0 && renderStateSelection()}
+        {!loadError && !loading && !showResults && step === 0 && savedComparisons.length > 0 && renderSavedComparisons()}
+        {!loadError && !loading && !showResults && step === 1 && renderAgeSelection()}
+        {!loadError && !loading && !showResults && step === 2 && renderGenderSelection()}
+        {!loadError && !loading && !showResults && step === 3 && renderVehicleSelection()}
+        {!loadError && !loading && !showResults && step === 4 && renderAnnualKmSelection()}
+        {!loadError && !loading && !showResults && step === 5 && renderPaymentFrequencySelection()}
+        {!loadError && !loading && !showResults && step === 6 && renderPrioritySelection()}
+        {!loadError && !loading && !showResults && step === 7 && renderFeatureSelection()}
+        {!loadError && !loading && showResults && renderResults()}
         
-        {!showResults && !loading && (
+        {!loadError && !showResults && !loading && (
           <div style={bottomStyle}>
             {step > 0 && (
               <button
@@ -1765,6 +2598,8 @@ const InsuranceQuiz = () => {
 
       <ComparisonModal />
 
+      <ProductComparisonView />
+
     </div>
   );
 };
@@ -0,0 +1,93 @@
+import React from 'react'
+import { renderToString } from 'react-dom/server'
+import App from './App'
+import { InitialComparison, ProcessedInsuranceProduct, RatedProduct } from './types'
+import { parseInsuranceCsv } from './utils/csvLoader'
+import { parseComparisonParams, parseResultsSort } from './utils/comparisonUrl'
+import { getQuizResults } from './utils/scoring'
+import { validateScoringProfile } from './utils/scoringProfile'
+
+// Server-side rendering of comparison links (/compare?state=...), used by server.js.
+// The results are ranked with the same shared scoring as the quiz, rendered into index.html,
+// and handed to the browser as window.__INITIAL_COMPARISON__ so main.tsx can hydrate them.
+// Pages are always rendered from the current dataset, even if the link names an earlier one.
+
+export interface ComparisonPageRequest {
+  template: string // Built dist/index.html
+  url: string // Absolute URL of the comparison link
+  csvText: string
+  scoringProfileJson: unknown
+}
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+// JSON that can't close the <script> tag it is embedded in
+const serializeForScript = (value: unknown): string =>
+  JSON.stringify(value).replace(/</g, '\\u003c')
+
+// The page source is public (crawled, unfurled in link previews), so prices stay on the server
+const withoutPrices = ({
+  price: _price,
+  priceRange: _priceRange,
+  annualCost: _annualCost,
+  monthlyPayment: _monthlyPayment,
+  ...rated
+}: ProcessedInsuranceProduct): RatedProduct => rated
+
+// Title and description for link previews. Like the page itself, these never include prices.
+const getPreviewText = ({ quizData, products }: InitialComparison): { title: string; description: string } => {
+  const age = quizData.age !== null ? `age ${quizData.age}` : quizData.ageGroup
+  const location = quizData.postcode ? `${quizData.postcode} ${quizData.state}` : quizData.state
+  const title = `Car insurance comparison: ${location}, ${age}, ${quizData.gender}`
+  const topPick = products[0]
+  const description = topPick
+    ? `${products.length} policies compared by ${quizData.priority === 'Price' ? 'price' : 'features'}. Top pick: ${topPick.name} (Dynamic Finder Score ${topPick.dynamicFinderScore.toFixed(1)}).`
+    : 'No policies match this comparison.'
+  return { title, description }
+}
+
+// Full HTML for a comparison link, or null when the link is invalid or can't be ranked
+// (server.js then serves the plain quiz)
+export const renderComparisonPage = ({ template, url, csvText, scoringProfileJson }: ComparisonPageRequest): string | null => {
+  const { searchParams } = new URL(url)
+  const link = parseComparisonParams(searchParams)
+  if (!link) {
+    return null
+  }
+
+  let initialComparison: InitialComparison
+  try {
+    // An invalid profile falls back to the plain quiz, which reports it
+    const scoringProfile = validateScoringProfile(scoringProfileJson)
+    const products = getQuizResults(parseInsuranceCsv(csvText).products, link.quizData, scoringProfile).map(withoutPrices)
+    initialComparison = { quizData: link.quizData, products, scoringProfile, sort: parseResultsSort(searchParams) }
+  } catch (error) {
+    // e.g. an age with no premium data, or an invalid scoring profile
+    console.error('Error ranking comparison link:', error)
+    return null
+  }
+
+  const html = renderToString(
+    <React.StrictMode>
+      <App initialComparison={initialComparison} />
+    </React.StrictMode>
+  )
+  const { title, description } = getPreviewText(initialComparison)
+  const head = [
+    `<title>${escapeHtml(title)}</title>`,
+    `<meta name="description" content="${escapeHtml(description)}" />`,
+    `<meta property="og:type" content="website" />`,
+    `<meta property="og:title" content="${escapeHtml(title)}" />`,
+    `<meta property="og:description" content="${escapeHtml(description)}" />`,
+    `<meta property="og:url" content="${escapeHtml(url)}" />`,
+    `<meta name="twitter:card" content="summary" />`,
+  ].join('\n    ')
+
+  return template
+    .replace(/<title>.*<\/title>/, head)
+    .replace(
+      '<div id="root"></div>',
+      `<div id="root">${html}</div>\n    <script>window.__INITIAL_COMPARISON__ = ${serializeForScript(initialComparison)}</script>`
+    )
+}
@@ -1,10 +1,27 @@
 import React from 'react'
 import ReactDOM from 'react-dom/client'
 import App from './App'
+import { InitialComparison } from './types'
 import './index.css'
 
-ReactDOM.createRoot(document.getElementById('root')!).render(
+declare global {
+  interface Window {
+    // Set by server.js on server-rendered comparison pages (see entry-server.tsx)
+    __INITIAL_COMPARISON__?: InitialComparison
+  }
+}
+
+const rootElement = document.getElementById('root')!
+const initialComparison = window.__INITIAL_COMPARISON__
+const app = (
   <React.StrictMode>
-    <App />
-  </React.StrictMode>,
-) 
\ No newline at end of file
+    <App initialComparison={initialComparison} />
+  </React.StrictMode>
+)
+
+// Server-rendered comparison links already have the results markup, so attach to it
+if (initialComparison) {
+  ReactDOM.hydrateRoot(rootElement, app)
+} else {
+  ReactDOM.createRoot(rootElement).render(app)
+}
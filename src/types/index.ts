@@ -1,15 +1,120 @@
-export type AustralianState = 'NSW' | 'VIC' | 'TAS' | 'WA' | 'SA' | 'QLD';
-export type AgeGroup = '< 25 years' | '< 35 years' | '< 65 years';
-export type Gender = 'Male' | 'Female' | 'Other';
-export type Priority = 'Price' | 'Features';
-export type SelectedFeature = 'STORM' | 'WINDSCREEN' | 'PERSONAL_EFFECTS' | 'ACCIDENTAL_DAMAGE' | 'NEW_CAR_REPLACEMENT';
+// Allowed values for the quiz / API unions below, also used to validate API requests at runtime
+export const AUSTRALIAN_STATES = ['NSW', 'VIC', 'TAS', 'WA', 'SA', 'QLD'] as const;
+export const AGE_GROUPS = ['< 25 years', '< 35 years', '< 65 years'] as const;
+export const GENDERS = ['Male', 'Female', 'Other'] as const;
+export const PRIORITIES = ['Price', 'Features'] as const;
+export const PAYMENT_FREQUENCIES = ['Annual', 'Monthly'] as const;
+export const SORT_DIRECTIONS = ['asc', 'desc'] as const;
+export const SELECTED_FEATURES = [
+  'STORM',
+  'WINDSCREEN',
+  'PERSONAL_EFFECTS',
+  'ACCIDENTAL_DAMAGE',
+  'NEW_CAR_REPLACEMENT',
+  'CHOICE_OF_REPAIRER',
+  'LIFETIME_GUARANTEE',
+  'ROADSIDE_ASSISTANCE',
+  'TOWING',
+  'KEY_REPLACEMENT',
+  'CHILD_SEAT',
+  'EMERGENCY_TRANSPORT',
+  'HIRE_CAR',
+  'PAY_MONTHLY',
+  'AGREED_VALUE',
+] as const;
+
+export type AustralianState = typeof AUSTRALIAN_STATES[number];
+export type Territory = 'ACT' | 'NT';
+export type PostcodeRegion = AustralianState | Territory;
+export type AgeGroup = typeof AGE_GROUPS[number];
+export type Gender = typeof GENDERS[number];
+export type Priority = typeof PRIORITIES[number];
+export type PaymentFrequency = typeof PAYMENT_FREQUENCIES[number];
+export type SelectedFeature = typeof SELECTED_FEATURES[number];
+
+// How the insured amount is set: a figure agreed up front, or the car's market value at claim time
+export type ValueBasis = 'Agreed' | 'Market';
+
+export interface VehicleDetails {
+  make: string;
+  model: string;
+  year: number; // Model year
+  value: number | null; // Owner's estimate of what the car is worth, in dollars
+}
+
+// Agreed vs market value advice for a vehicle
+export interface ValueBasisRecommendation {
+  basis: ValueBasis;
+  reason: string;
+}
+
+// Policies priced on how far the car is driven: per-km pricing, or a discount for staying under a km cap
+export type UsageBasedPricing = 'payAsYouDrive' | 'kmLimited';
+
+// How a usage-based policy suits the customer's annual km: boosted when they drive little,
+// flagged when per-km pricing is likely to cost more, excluded when they'd exceed the km cap
+export interface UsageFit {
+  effect: 'boost' | 'flag' | 'exclude';
+  reason: string;
+}
+
+// Premium plus the other costs of a policy over a year (see utils/totalCost)
+export interface AnnualCostEstimate {
+  premium: number;
+  addOns: number; // Selected features the policy only offers at extra cost
+  expectedExcess: number; // Claims per year x excess, per the scoring profile's assumptions
+  total: number;
+}
+
+// Cost of paying a premium by the month (see utils/payment)
+export interface MonthlyPaymentEstimate {
+  monthlyPremium: number;
+  annualEquivalent: number; // 12 monthly payments
+  loadingPercent: number | null; // Surcharge for paying monthly; null when the data doesn't say (none assumed)
+}
+
+// Normalised cover for a feature: built in, available as a paid add-on, or not offered
+export type CoverageLevel = 'included' | 'optional' | 'notCovered';
 
 export interface QuizData {
   state: AustralianState | null;
+  postcode: string | null; // When given, state is resolved from it (ACT is priced as NSW)
   ageGroup: AgeGroup | null;
+  age: number | null; // Exact age; premiums are interpolated between age bands
   gender: Gender | null;
+  vehicle: VehicleDetails | null; // null when the vehicle step is skipped
+  annualKm: number | null; // null when the customer isn't sure
+  paymentFrequency: PaymentFrequency;
   priority: Priority | null;
   selectedFeatures: SelectedFeature[];
+  includeOptionalCover: boolean; // Count optional add-ons as meeting a selected feature
+}
+
+// Premium movement for a product in its segment since the previous year of price data
+export interface PriceTrend {
+  previousYear: number;
+  changePercent: number; // e.g. 4.2 = premium up 4.2%
+  rankChange: number; // Positive = moved up the segment (relatively cheaper)
+}
+
+// Limits extracted from free-text benefit details (null when not stated)
+export interface BenefitDetails {
+  amountCap: number | null; // e.g. "Up to $1,500"
+  dailyRate: number | null; // e.g. "$150 per day"
+  maxDays: number | null; // e.g. "Max of 21 days"
+  yearLimit: number | null; // e.g. "in the first 2 years"
+  kmLimit: number | null; // e.g. "under 40,000 km"
+  conditions: string[]; // e.g. "First owner only"
+}
+
+// Optional ranking preferences beyond the core state / age / gender / priority profile
+export interface RankingOptions {
+  includeOptionalCover?: boolean;
+  priceYear?: number; // Price columns to rank by (defaults to the latest year in the data)
+  postcode?: string; // Carried through for postcode-level price columns; pricing is by state for now
+  vehicle?: VehicleDetails; // Drives new car replacement eligibility and the agreed / market value advice
+  annualKm?: number; // Kilometres driven a year; adjusts usage-based policies
+  paymentFrequency?: PaymentFrequency; // Monthly keeps only policies that can be paid monthly
 }
 
 export interface InsuranceProduct {
@@ -18,23 +123,29 @@ export interface InsuranceProduct {
   NAME: string;
   PROVIDER_ID: string;
   AGREED_OR_MARKET_VALUE: string;
+  AGREED_MARKET_VALUE: string;
   CHOICE_OF_REPAIRER: string;
   LIFETIME_GUARANTEE_ON_REPAIRS: string;
   NEW_CAR_REPLACEMENT: string;
+  NEWCAR_REPLACEMENT: string;
   NEWCAR_REPLACEMENT_DETAILS: string;
   PERSONAL_EFFECTS: string;
+  PERSONALEFFECTS: string;
   PERSONALEFFECTS_DETAILS: string;
   ROADSIDE_ASSISTANCE: string;
   ROADSIDE_ASSISTANCE_COST: string;
   STORM: string;
   TOWING: string;
   KEY_REPLACEMENT: string;
+  KEYREPLACEMENT: string;
   KEYREPLACEMENT_DETAILS: string;
   CHILD_SEAT_BABY_CAPSULES: string;
   CHILD_SEAT_BABY_CAPSULES_DETAILS: string;
   EMERGENCY_TRANSPORT_AND_ACCOMMODATION: string;
+  EMERGENCY_TRANSPORT_ACCOMMODATION: string;
   EMERGENCY_TRANSPORT_ACCOMMODATION_DETAILS: string;
   ESSENTIAL_EMERGENCY_REPAIRS: string;
+  ESSENTIAL_EMERGENCY_REPAIR: string;
   ESSENTIAL_EMERGENCY_REPAIR_DETAILS: string;
   HIRE_CAR_AFTER_ACCIDENT: string;
   HIRE_CAR_ACCIDENT: string;
@@ -49,44 +160,16 @@ export interface InsuranceProduct {
   INSURANCE_TYPE: string;
   ACCIDENTAL_DAMAGE: string;
   
-  // Price columns for different states, genders, and ages
-  '2025-AUFCI-NSW-F-20': string;
-  '2025-AUFCI-NSW-F-30': string;
-  '2025-AUFCI-NSW-F-60': string;
-  '2025-AUFCI-NSW-M-20': string;
-  '2025-AUFCI-NSW-M-30': string;
-  '2025-AUFCI-NSW-M-60': string;
-  '2025-AUFCI-QLD-F-20': string;
-  '2025-AUFCI-QLD-F-30': string;
-  '2025-AUFCI-QLD-F-60': string;
-  '2025-AUFCI-QLD-M-20': string;
-  '2025-AUFCI-QLD-M-30': string;
-  '2025-AUFCI-QLD-M-60': string;
-  '2025-AUFCI-SA-F-20': string;
-  '2025-AUFCI-SA-F-30': string;
-  '2025-AUFCI-SA-F-60': string;
-  '2025-AUFCI-SA-M-20': string;
-  '2025-AUFCI-SA-M-30': string;
-  '2025-AUFCI-SA-M-60': string;
-  '2025-AUFCI-TAS-F-20': string;
-  '2025-AUFCI-TAS-F-30': string;
-  '2025-AUFCI-TAS-F-60': string;
-  '2025-AUFCI-TAS-M-20': string;
-  '2025-AUFCI-TAS-M-30': string;
-  '2025-AUFCI-TAS-M-60': string;
-  '2025-AUFCI-VIC-F-20': string;
-  '2025-AUFCI-VIC-F-30': string;
-  '2025-AUFCI-VIC-F-60': string;
-  '2025-AUFCI-VIC-M-20': string;
-  '2025-AUFCI-VIC-M-30': string;
-  '2025-AUFCI-VIC-M-60': string;
-  '2025-AUFCI-WA-F-20': string;
-  '2025-AUFCI-WA-F-30': string;
-  '2025-AUFCI-WA-F-60': string;
-  '2025-AUFCI-WA-M-20': string;
-  '2025-AUFCI-WA-M-30': string;
-  '2025-AUFCI-WA-M-60': string;
   count: string;
+
+  // Price columns are discovered from the header, e.g. '2025-AUFCI-NSW-F-30' (see utils/priceMatrix)
+  [priceColumn: string]: string;
+}
+
+// Active products from insurance-data.csv, with the dataset's version id (null when it can't be worked out)
+export interface InsuranceDataset {
+  products: InsuranceProduct[];
+  version: string | null;
 }
 
 export interface ProcessedInsuranceProduct {
@@ -95,6 +178,19 @@ export interface ProcessedInsuranceProduct {
   providerId: string;
   price: number;
   priceRating: number; // Rating from 1.0 to 9.9 based on price competitiveness
+  priceTrend: PriceTrend | null; // null when there is no earlier year to compare with
+  priceRange: { low: number; high: number } | null; // Male/female quotes behind a blended 'Other' price
+  annualCost: AnnualCostEstimate;
+  annualCostRating: number; // Rating from 1.0 to 9.9 based on estimated annual cost (lower cost = higher rating)
+  monthlyPayment: MonthlyPaymentEstimate | null; // null when the policy can't be paid monthly
+  monthlyEquivalentRating: number | null; // Rating from 1.0 to 9.9 based on the yearly cost of paying monthly
+  usageBasedPricing: UsageBasedPricing | null; // null for policies priced regardless of distance
+  usageFit: UsageFit | null; // null without annual km, or when the km doesn't affect the policy
+  // How the policy suits the vehicle; null when no vehicle was given
+  vehicleFit: {
+    newCarReplacementEligible: boolean | null; // null when the policy has no new car replacement
+    offersRecommendedValueBasis: boolean;
+  } | null;
   priceScore: number;
   coverScore: number;
   finderScore: number;
@@ -104,6 +200,19 @@ export interface ProcessedInsuranceProduct {
   personalEffectsCoverageScore: number;
   accidentalDamageCoverageScore: number;
   newCarReplacementScore: number;
+  // Sub-score and cover flag for every feature in the feature catalogue
+  featureScores: Record<SelectedFeature, number>;
+  featureCoverage: Record<SelectedFeature, CoverageLevel>;
+  // Parsed limits for benefits described in free text
+  benefits: {
+    newCarReplacement: BenefitDetails;
+    hireCar: BenefitDetails;
+    personalEffects: BenefitDetails;
+    keyReplacement: BenefitDetails;
+    childSeat: BenefitDetails;
+    emergencyTransport: BenefitDetails;
+    essentialRepairs: BenefitDetails;
+  };
   // Average of all feature sub-scores
   averageFeatureScore: number;
   // Dynamic Finder Score based on user priority
@@ -137,3 +246,97 @@ export interface ProcessedInsuranceProduct {
     accidentalDamage: boolean;
   };
 }
+
+// Tunable scoring weights, loaded at runtime from public/scoring-profile.json
+export interface FeatureWeightTier {
+  selected: number; // Weight given to each selected feature
+  remaining: number; // Total weight shared among non-selected features
+}
+
+// How 'Other' gender is priced from the male and female columns:
+// midpoint = average, lower / upper = cheaper / dearer of the two, female = female columns only (legacy)
+export type OtherGenderPricing = 'midpoint' | 'lower' | 'upper' | 'female';
+
+export interface ScoringProfile {
+  version: string;
+  dynamicFinderScore: Record<Priority, {
+    priceWeight: number;
+    featureWeight: number;
+  }>;
+  // Keyed by the number of selected features ("1", "2", ...)
+  selectedFeatureWeights: Record<string, FeatureWeightTier>;
+  booleanFeatureScores: {
+    covered: number;
+    optional: number; // Partial credit for cover offered as a paid add-on
+    notCovered: number;
+  };
+  otherGenderPricing: OtherGenderPricing;
+  usageBased: {
+    lowKmThreshold: number; // Annual km at or below which usage-based policies are boosted
+    lowKmBoost: number; // Added to their price rating (capped at 9.9)
+    highKmThreshold: number; // Annual km above which pay-as-you-drive policies are flagged
+    kmLimitedMaxKm: number; // Annual km cap of low-km policies; above it they are excluded
+  };
+  // Assumptions behind the estimated annual cost; the CSV has no excess amounts
+  totalCost: {
+    standardExcess: number; // Dollars, for an at-fault accident claim
+    reducedWindscreenExcess: number; // Dollars, for windscreen claims on policies with reduced windscreen excess
+    accidentClaimsPerYear: number; // Expected claims a year, e.g. 0.08
+    windscreenClaimsPerYear: number;
+    addOnCosts: Partial<Record<SelectedFeature, number>>; // Yearly cost of optional add-ons without a listed price
+    defaultAddOnCost: number; // For optional add-ons missing from addOnCosts
+  };
+}
+
+export type ResultsSortColumn = 'priceRating' | 'annualCostRating' | 'monthlyEquivalentRating' | 'featureScore' | 'dynamicFinderScore';
+
+export type SortDirection = typeof SORT_DIRECTIONS[number];
+
+// How the quiz results are sorted; column null = default order (sponsored first, then Dynamic Finder Score)
+export interface ResultsSort {
+  column: ResultsSortColumn | null;
+  direction: SortDirection;
+}
+
+// Premiums and costs behind the ratings; never shown, and never embedded in a page
+export type ProductPriceField = 'price' | 'priceRange' | 'annualCost' | 'monthlyPayment';
+
+// A result as the page may show it: ratings, features and benefits, without the prices behind them.
+// Server-rendered results are only this until the browser ranks them again.
+export type RatedProduct = Omit<ProcessedInsuranceProduct, ProductPriceField>;
+
+// Results rendered on the server for a comparison link, handed to the browser to hydrate.
+// They are embedded in the page source, so products carry their ratings but no prices.
+export interface InitialComparison {
+  quizData: QuizData;
+  products: RatedProduct[];
+  scoringProfile: ScoringProfile;
+  sort: ResultsSort;
+}
+
+// Ratings kept for each product in a saved comparison (prices aren't stored, as they're never shown)
+export type SavedProductRating = 'priceRating' | 'annualCostRating' | 'monthlyEquivalentRating' | 'averageFeatureScore' | 'dynamicFinderScore';
+
+export type SavedProductSnapshot = Pick<ProcessedInsuranceProduct, 'id' | 'name' | SavedProductRating> & {
+  rank: number; // 1 = top of the results as shown
+};
+
+// A comparison kept in browser storage so it can be reopened later (see utils/savedComparisons)
+export interface SavedComparison {
+  id: string;
+  name: string;
+  savedAt: string; // ISO timestamp
+  quizData: QuizData;
+  datasetVersion: string | null;
+  sort: ResultsSort; // The table's sort when saved; products are ranked in that order
+  products: SavedProductSnapshot[];
+}
+
+// What changed in a saved comparison's results since it was saved
+export interface SavedComparisonChanges {
+  datasetChanged: boolean | null; // null when either dataset version is unknown
+  added: SavedProductSnapshot[]; // In the results now, but not when saved
+  removed: SavedProductSnapshot[]; // In the saved results, but not now
+  rankChanges: { product: SavedProductSnapshot; previousRank: number }[];
+  ratingChanges: { product: SavedProductSnapshot; rating: SavedProductRating; previous: number }[];
+}
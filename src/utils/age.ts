@@ -0,0 +1,27 @@
+import { AgeGroup } from '../types';
+
+// Age in whole years on the given day, or null for an invalid or future date (expects YYYY-MM-DD)
+export const getAgeFromDateOfBirth = (dateOfBirth: string, today: Date = new Date()): number | null => {
+  const match = dateOfBirth.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) {
+    return null;
+  }
+
+  const [year, month, day] = [parseInt(match[1], 10), parseInt(match[2], 10), parseInt(match[3], 10)];
+  const birthDate = new Date(year, month - 1, day);
+  if (birthDate.getMonth() !== month - 1 || birthDate > today) {
+    return null;
+  }
+
+  const hadBirthdayThisYear = today.getMonth() > month - 1
+    || (today.getMonth() === month - 1 && today.getDate() >= day);
+  return today.getFullYear() - year - (hadBirthdayThisYear ? 0 : 1);
+};
+
+// The legacy age group an exact age falls in, for display; null beyond the last group
+export const getAgeGroupForAge = (age: number): AgeGroup | null => {
+  if (age < 25) return '< 25 years';
+  if (age < 35) return '< 35 years';
+  if (age < 65) return '< 65 years';
+  return null;
+};
@@ -0,0 +1,84 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { BenefitDetails } from '../types';
+import { EMPTY_BENEFIT_DETAILS, getHireCarGenerosity, parseBenefitDetails } from './benefitParser';
+
+// Cells copied verbatim from public/insurance-data.csv, by column
+const FIXTURES: Record<string, [string, Partial<BenefitDetails>][]> = {
+  HIRE_CAR_AFTER_ACCIDENT: [
+    ['Optional - Up to $75 per day - Up to 14 days', { dailyRate: 75, maxDays: 14 }],
+    ['Optional - Up to $150 per day (Max of 21 days)', { dailyRate: 150, maxDays: 21 }],
+    ['Optional - up to $100 per day (Max 30 days)', { dailyRate: 100, maxDays: 30 }],
+    ['Optional - Up to $50 per day after a covered event (Max 14 days)', { dailyRate: 50, maxDays: 14, conditions: ['After a covered event'] }],
+    ['Yes - Up to $1,000 - Up to 14 days', { amountCap: 1000, maxDays: 14 }],
+    ['Yes - Up to $50 per day - Until claim is completed', { dailyRate: 50, conditions: ['Until claim is completed'] }],
+    ['Optional - Up to $70 per day - Up to maximum hire period shown on the Certificate of Insurance', { dailyRate: 70, conditions: ['Limit shown on Certificate of Insurance'] }],
+    ['Optional - Reasonable costs - Up to 14 days', { maxDays: 14, conditions: ['Reasonable costs'] }],
+    ['Optional - No limit mentioned- Up to 14 days', { maxDays: 14, conditions: ['Limit not disclosed'] }],
+    ['$50 a day', { dailyRate: 50 }],
+  ],
+  PERSONALEFFECTS_DETAILS: [
+    ['Up to $1,000', { amountCap: 1000 }],
+    ['Optional - $2,000', { amountCap: 2000 }],
+  ],
+  NEWCAR_REPLACEMENT_DETAILS: [
+    ['If your car is written off in the first 2 years', { yearLimit: 2 }],
+    ['If your car is written off or stolen in the first 2 years', { yearLimit: 2, conditions: ['Includes theft'] }],
+    ['If your car is written off in the first 2 years or is under 40,000 km', { yearLimit: 2, kmLimit: 40000, conditions: ['Age or distance limit, whichever applies'] }],
+    ['If your car is written off in the first 3 years and has not travelled more than 60,000km', { yearLimit: 3, kmLimit: 60000 }],
+    ['If your car is written off in the first year or 20,000 kilometres from original registration', { yearLimit: 1, kmLimit: 20000, conditions: ['Age or distance limit, whichever applies'] }],
+    ['If your car is less than 2 years old and written off', { yearLimit: 2 }],
+    ['Up to 3 years from first registration, if first owner', { yearLimit: 3, conditions: ['First owner only'] }],
+    ['If your car is a total loss as a result of a covered event and has less than 15,000kms on the odometer', { kmLimit: 15000, conditions: ['After a covered event'] }],
+  ],
+  EMERGENCY_TRANSPORT_ACCOMMODATION_DETAILS: [
+    ['Up to $200 per day - Up to $1,000', { dailyRate: 200, amountCap: 1000 }],
+    ['Up to $100 per day to a total of $1,500', { dailyRate: 100, amountCap: 1500 }],
+    ['Up to $2,000 if more than 100km from home', { amountCap: 2000, conditions: ['More than 100km from home'] }],
+    ['Reasonable Cost', { conditions: ['Reasonable costs'] }],
+  ],
+  KEYREPLACEMENT_DETAILS: [
+    ['Up o $2,000', { amountCap: 2000 }],
+    ['Limit not disclosed', { conditions: ['Limit not disclosed'] }],
+  ],
+};
+
+const csvText = readFileSync(path.join(process.cwd(), 'public', 'insurance-data.csv'), 'utf-8');
+
+describe('parseBenefitDetails', () => {
+  Object.entries(FIXTURES).forEach(([column, fixtures]) => {
+    describe(column, () => {
+      it.each(fixtures)('parses "%s"', (text, expected) => {
+        expect(csvText).toContain(text);
+        expect(parseBenefitDetails(text)).toEqual({ ...EMPTY_BENEFIT_DETAILS, ...expected });
+      });
+    });
+  });
+
+  it('returns empty details for a blank cell', () => {
+    expect(parseBenefitDetails('')).toEqual(EMPTY_BENEFIT_DETAILS);
+    expect(parseBenefitDetails(undefined)).toEqual(EMPTY_BENEFIT_DETAILS);
+  });
+});
+
+describe('getHireCarGenerosity', () => {
+  const generosity = (text: string) => getHireCarGenerosity(parseBenefitDetails(text));
+
+  it('uses the cap, or the daily rate times the days', () => {
+    expect(generosity('Yes - Up to $1,000 - Up to 14 days')).toBe(1000);
+    expect(generosity('Optional - Up to $150 per day (Max of 21 days)')).toBe(3150);
+  });
+
+  it('ranks hire until the claim is completed above the longest capped hire at the same rate', () => {
+    expect(generosity('Yes - Up to $50 per day - Until claim is completed'))
+      .toBeGreaterThan(generosity('Optional - Up to $50 per day after a covered event (Max 14 days)'));
+    expect(generosity('Optional - Up to $90 per day - Until claim is completed'))
+      .toBeGreaterThan(generosity('Optional - Up to $75 per day - Up to 21 days'));
+  });
+
+  it('is 0 when the hire period is unknown', () => {
+    expect(generosity('Optional - Up to $50 per day')).toBe(0);
+    expect(generosity('Optional - Up to $70 per day - Up to maximum hire period shown on the Certificate of Insurance')).toBe(0);
+  });
+});
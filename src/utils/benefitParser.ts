@@ -0,0 +1,104 @@
+import { BenefitDetails } from '../types';
+
+// Parses free-text benefit descriptions from the CSV, e.g.
+//   "Optional - Up to $150 per day (Max of 21 days)"
+//   "If your car is written off in the first 2 years or is under 40,000 km"
+//   "Up to $100 per day to a total of $1,500"
+// into typed limits. Anything we can't read is left as null.
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+};
+
+const toNumber = (value: string): number => parseFloat(value.replace(/,/g, ''));
+
+// Some cells contain scraped HTML; keep any popover text and drop the markup
+const stripHtml = (text: string): string => {
+  const popoverText = Array.from(text.matchAll(/data-content="([^"]*)"/gi)).map(match => match[1]);
+  return [text.replace(/<[^>]*>/g, ' '), ...popoverText]
+    .join(' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+const DAILY_RATE_PATTERN = /\$\s?([\d,]+(?:\.\d+)?)\s*(?:per|a)\s*day/i;
+const DOLLAR_PATTERN = /\$\s?([\d,]+(?:\.\d+)?)(?!\d|,\d|\.\d|\s*(?:per|a)\s*day)/gi;
+const MAX_DAYS_PATTERN = /(?:max(?:imum)?(?:\s+of)?|up\s+to)\s+(\d+)\s*days?/i;
+const YEAR_PATTERN = /(?:first|within|less\s+than|up\s+to)\s+(\d+|one|two|three|four|five)?\s*years?/i;
+const KM_PATTERN = /([\d,]+)\s*(?:km|kms|kilometres|kilometers)\b(\s*from\s+home)?/gi;
+
+const UNTIL_CLAIM_COMPLETED = 'Until claim is completed';
+
+// Hire until the claim is completed has no day limit. It counts as twice the longest limit in the
+// data (30 days), so it ranks above capped hire at the same daily rate.
+const OPEN_ENDED_HIRE_DAYS = 60;
+
+const CONDITION_PATTERNS: { pattern: RegExp; label: string | ((match: RegExpMatchArray) => string) }[] = [
+  { pattern: /first\s+owner/i, label: 'First owner only' },
+  { pattern: /or\s+stolen/i, label: 'Includes theft' },
+  { pattern: /after\s+theft\s+only/i, label: 'After theft only' },
+  { pattern: /more\s+than\s+([\d,]+)\s*km\s+from\s+home/i, label: (match) => `More than ${match[1]}km from home` },
+  { pattern: /until\s+(?:the\s+)?claim\s+is\s+completed/i, label: UNTIL_CLAIM_COMPLETED },
+  { pattern: /certificate\s+of\s+insurance/i, label: 'Limit shown on Certificate of Insurance' },
+  { pattern: /reasonable\s+cost/i, label: 'Reasonable costs' },
+  { pattern: /limit\s+not\s+(?:disclosed|mentioned)|no\s+limit\s+mentioned/i, label: 'Limit not disclosed' },
+  { pattern: /replacement\s+cost/i, label: 'Replacement cost' },
+  { pattern: /after\s+a\s+covered\s+event|result\s+of\s+a\s+covered\s+event/i, label: 'After a covered event' },
+  { pattern: /years?\s+or\s+(?:is\s+)?(?:under\s+)?[\d,]+\s*k/i, label: 'Age or distance limit, whichever applies' },
+];
+
+export const EMPTY_BENEFIT_DETAILS: BenefitDetails = {
+  amountCap: null,
+  dailyRate: null,
+  maxDays: null,
+  yearLimit: null,
+  kmLimit: null,
+  conditions: [],
+};
+
+export const parseBenefitDetails = (rawText: string | undefined): BenefitDetails => {
+  const text = stripHtml(rawText || '');
+  if (text === '') {
+    return { ...EMPTY_BENEFIT_DETAILS, conditions: [] };
+  }
+
+  const dailyRateMatch = text.match(DAILY_RATE_PATTERN);
+  const dailyRate = dailyRateMatch ? toNumber(dailyRateMatch[1]) : null;
+
+  // The cap is the largest dollar amount that isn't a daily rate
+  const dollarAmounts = Array.from(text.matchAll(DOLLAR_PATTERN))
+    .map(match => toNumber(match[1]));
+  const amountCap = dollarAmounts.length > 0 ? Math.max(...dollarAmounts) : null;
+
+  const maxDaysMatch = text.match(MAX_DAYS_PATTERN);
+  const maxDays = maxDaysMatch ? parseInt(maxDaysMatch[1], 10) : null;
+
+  const yearMatch = text.match(YEAR_PATTERN);
+  const yearLimit = yearMatch
+    ? (yearMatch[1] ? NUMBER_WORDS[yearMatch[1].toLowerCase()] ?? parseInt(yearMatch[1], 10) : 1)
+    : null;
+
+  // Distances "from home" are travel conditions, not odometer limits
+  const kmMatch = Array.from(text.matchAll(KM_PATTERN)).find(match => !match[2]);
+  const kmLimit = kmMatch ? toNumber(kmMatch[1]) : null;
+
+  const conditions = CONDITION_PATTERNS.reduce<string[]>((found, { pattern, label }) => {
+    const match = text.match(pattern);
+    if (match) {
+      found.push(typeof label === 'string' ? label : label(match));
+    }
+    return found;
+  }, []);
+
+  return { amountCap, dailyRate, maxDays, yearLimit, kmLimit, conditions };
+};
+
+// Total hire car benefit: an explicit cap, otherwise daily rate x max days (0 when the days are unknown)
+export const getHireCarGenerosity = (details: BenefitDetails): number => {
+  const days = details.maxDays ?? (details.conditions.includes(UNTIL_CLAIM_COMPLETED) ? OPEN_ENDED_HIRE_DAYS : 0);
+  return details.amountCap ?? (details.dailyRate ?? 0) * days;
+};
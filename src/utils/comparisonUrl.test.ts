@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { QuizData } from '../types';
+import { DEFAULT_RESULTS_SORT } from './resultsSort';
+import { getComparisonUrl, getQuizLocationUrl, parseComparisonParams, parseQuizLocation, QuizLocation } from './comparisonUrl';
+
+const EMPTY_QUIZ: QuizData = {
+  state: null,
+  postcode: null,
+  ageGroup: null,
+  age: null,
+  gender: null,
+  vehicle: null,
+  annualKm: null,
+  paymentFrequency: 'Annual',
+  priority: null,
+  selectedFeatures: [],
+  includeOptionalCover: false,
+};
+
+const COMPLETED_QUIZ: QuizData = {
+  state: 'NSW',
+  postcode: '2000',
+  ageGroup: '< 35 years',
+  age: 34,
+  gender: 'Male',
+  vehicle: { make: 'Toyota', model: 'Corolla', year: 2020, value: 25000 },
+  annualKm: 8000,
+  paymentFrequency: 'Monthly',
+  priority: 'Features',
+  selectedFeatures: ['STORM', 'HIRE_CAR'],
+  includeOptionalCover: true,
+};
+
+// Split a URL as the browser's location would
+const roundTrip = (location: QuizLocation): QuizLocation => {
+  const url = new URL(getQuizLocationUrl(location), 'https://example.com');
+  return parseQuizLocation(url.pathname, url.search);
+};
+
+const paramsOf = (url: string) => new URL(url, 'https://example.com').searchParams;
+
+describe('comparison links', () => {
+  it('round-trip every answer of a completed quiz', () => {
+    const url = getComparisonUrl({ quizData: COMPLETED_QUIZ, datasetVersion: '2025-01' });
+
+    expect(url.startsWith('/compare?')).toBe(true);
+    expect(parseComparisonParams(paramsOf(url))).toEqual({ quizData: COMPLETED_QUIZ, datasetVersion: '2025-01' });
+  });
+
+  it('round-trip an age group and skipped optional answers', () => {
+    const quizData: QuizData = { ...EMPTY_QUIZ, state: 'VIC', ageGroup: '< 65 years', gender: 'Other', priority: 'Price' };
+
+    expect(parseComparisonParams(paramsOf(getComparisonUrl({ quizData, datasetVersion: null })))).toEqual({ quizData, datasetVersion: null });
+  });
+
+  it.each([
+    ['a missing gender', 'state=NSW&age=34&priority=Price'],
+    ['an unknown state', 'state=XX&age=34&gender=Male&priority=Price'],
+    ['a postcode in another state', 'state=VIC&postcode=2000&age=34&gender=Male&priority=Price'],
+    ['an unknown feature', 'state=NSW&age=34&gender=Male&priority=Features&features=STORM,JETPACK'],
+    ['a model year the vehicle was not made in', 'state=NSW&age=34&gender=Male&priority=Price&make=Toyota&model=Corolla&year=1980'],
+    ['a non-numeric km', 'state=NSW&age=34&gender=Male&priority=Price&km=lots'],
+  ])('are rejected with %s', (_, search) => {
+    expect(parseComparisonParams(new URLSearchParams(search))).toBeNull();
+  });
+});
+
+describe('quiz location', () => {
+  it('keeps the first step of an empty quiz at the plain quiz path', () => {
+    const location: QuizLocation = { quizData: EMPTY_QUIZ, step: 0, showResults: false, sort: DEFAULT_RESULTS_SORT };
+
+    expect(getQuizLocationUrl(location)).toBe('/');
+    expect(roundTrip(location)).toEqual(location);
+  });
+
+  it('round-trips a step part way through the quiz', () => {
+    const location: QuizLocation = {
+      quizData: { ...EMPTY_QUIZ, state: 'QLD', ageGroup: '< 25 years', gender: 'Female' },
+      step: 3,
+      showResults: false,
+      sort: DEFAULT_RESULTS_SORT,
+    };
+
+    expect(getQuizLocationUrl(location)).toMatch(/^\/\?step=4&/);
+    expect(roundTrip(location)).toEqual(location);
+  });
+
+  it('round-trips results with their sort order', () => {
+    const location: QuizLocation = {
+      quizData: COMPLETED_QUIZ,
+      step: 7,
+      showResults: true,
+      sort: { column: 'priceRating', direction: 'asc' },
+    };
+
+    expect(getQuizLocationUrl(location)).toContain('sort=priceRating&dir=asc');
+    expect(roundTrip(location)).toEqual(location);
+  });
+
+  it('pulls a step back to the first unanswered question', () => {
+    expect(parseQuizLocation('/', '?step=7&state=NSW').step).toBe(1);
+  });
+
+  it('opens an incomplete comparison link in the quiz where its answers stop', () => {
+    const location = parseQuizLocation('/compare', '?state=NSW&age=34&sort=priceRating');
+
+    expect(location.showResults).toBe(false);
+    expect(location.step).toBe(2);
+    expect(location.quizData.age).toBe(34);
+    expect(location.sort).toEqual({ column: 'priceRating', direction: 'desc' });
+  });
+});
@@ -0,0 +1,200 @@
+import { AUSTRALIAN_STATES, AgeGroup, AustralianState, GENDERS, PRIORITIES, QuizData, ResultsSort, ResultsSortColumn, SelectedFeature, VehicleDetails } from '../types';
+import { FEATURE_CATALOGUE } from './featureCatalogue';
+import { getAgeGroupForAge } from './age';
+import { AGE_GROUP_BANDS } from './priceMatrix';
+import { resolvePostcode } from './postcodes';
+import { findVehicleModel, getVehicleModelYears } from './vehicleCatalogue';
+
+// Shareable comparison links, e.g.
+//   /compare?state=NSW&age=34&gender=Male&priority=Features&features=STORM,HIRE_CAR&optional=true
+// Built by the API's /compare endpoint and read back by the server-rendered comparison page.
+// The quiz uses the same parameters to keep its progress in the address bar:
+//   /?step=3&state=NSW&age=34             (quiz steps are numbered from 1)
+//   /compare?...&sort=priceRating&dir=asc  (results, with their sort order)
+
+export const COMPARISON_PATH = '/compare';
+export const QUIZ_PATH = '/';
+
+const SORT_COLUMNS: ResultsSortColumn[] = ['priceRating', 'annualCostRating', 'monthlyEquivalentRating', 'featureScore', 'dynamicFinderScore'];
+
+export interface ComparisonLink {
+  quizData: QuizData;
+  datasetVersion: string | null; // Only set when the link pins an earlier dataset
+}
+
+// Where the quiz is up to, as kept in the address bar
+export interface QuizLocation {
+  quizData: QuizData;
+  step: number; // Quiz step shown (from 0); ignored while showing results
+  showResults: boolean;
+  sort: ResultsSort;
+}
+
+// Query parameters for the quiz answers given so far
+const buildQuizParams = (quizData: QuizData): URLSearchParams => {
+  const { vehicle } = quizData;
+  return new URLSearchParams({
+    ...(quizData.state && { state: quizData.state }),
+    ...(quizData.postcode && { postcode: quizData.postcode }),
+    ...(quizData.age !== null ? { age: String(quizData.age) } : quizData.ageGroup && { age: quizData.ageGroup }),
+    ...(quizData.gender && { gender: quizData.gender }),
+    ...(quizData.priority && { priority: quizData.priority, features: quizData.selectedFeatures.join(',') }),
+    ...(quizData.includeOptionalCover && { optional: 'true' }),
+    ...(vehicle && { make: vehicle.make, model: vehicle.model, year: String(vehicle.year) }),
+    ...(vehicle?.value && { value: String(vehicle.value) }),
+    ...(quizData.annualKm !== null && { km: String(quizData.annualKm) }),
+    ...(quizData.paymentFrequency === 'Monthly' && { payment: 'monthly' }),
+  });
+};
+
+// Query parameters for a completed quiz. Optional answers are left out when not given.
+export const buildComparisonParams = ({ quizData, datasetVersion }: ComparisonLink): URLSearchParams => {
+  const params = buildQuizParams(quizData);
+  if (datasetVersion) {
+    params.set('dataset', datasetVersion);
+  }
+  return params;
+};
+
+export const getComparisonUrl = (link: ComparisonLink): string =>
+  `${COMPARISON_PATH}?${buildComparisonParams(link).toString()}`;
+
+export const getQuizLocationUrl = ({ quizData, step, showResults, sort }: QuizLocation): string => {
+  const params = buildQuizParams(quizData);
+  if (showResults) {
+    if (sort.column) {
+      params.set('sort', sort.column);
+      params.set('dir', sort.direction);
+    }
+    return `${COMPARISON_PATH}?${params.toString()}`;
+  }
+
+  if (step === 0 && !params.toString()) {
+    return QUIZ_PATH;
+  }
+  return `${QUIZ_PATH}?${new URLSearchParams([['step', String(step + 1)], ...params]).toString()}`;
+};
+
+// Each answer below parses to its value, null when not given, or undefined when invalid
+
+const parseWholeNumber = (value: string | null): number | null =>
+  value !== null && /^\d+$/.test(value) ? parseInt(value, 10) : null;
+
+const parseOption = <T extends string>(value: string | null, options: readonly T[]): T | null | undefined =>
+  !value ? null : options.includes(value as T) ? value as T : undefined;
+
+const parseLocation = (params: URLSearchParams): { state: AustralianState; postcode: string | null } | null | undefined => {
+  const state = parseOption(params.get('state'), AUSTRALIAN_STATES);
+  const postcode = params.get('postcode');
+  if (!state) {
+    return state === null && !postcode ? null : undefined;
+  }
+
+  const location = postcode ? resolvePostcode(postcode) : null;
+  if (postcode && location?.state !== state) {
+    return undefined;
+  }
+  return { state, postcode: location?.postcode ?? null };
+};
+
+const parseAge = (params: URLSearchParams): { age: number | null; ageGroup: AgeGroup | null } | null | undefined => {
+  const ageParam = params.get('age');
+  if (!ageParam) {
+    return null;
+  }
+
+  // Exact ages carry their age group too, as in the quiz
+  const age = parseWholeNumber(ageParam);
+  if (age !== null) {
+    return { age, ageGroup: getAgeGroupForAge(age) };
+  }
+  return ageParam in AGE_GROUP_BANDS ? { age: null, ageGroup: ageParam as AgeGroup } : undefined;
+};
+
+const parseFeatures = (value: string | null): SelectedFeature[] | undefined => {
+  const features = (value ?? '').split(',').filter(Boolean) as SelectedFeature[];
+  return features.every(feature => FEATURE_CATALOGUE.some(definition => definition.id === feature)) ? features : undefined;
+};
+
+const parseVehicle = (params: URLSearchParams): VehicleDetails | null | undefined => {
+  const make = params.get('make');
+  const model = params.get('model');
+  if (!make && !model) {
+    return null;
+  }
+
+  const catalogueModel = make && model ? findVehicleModel(make, model) : null;
+  const year = parseWholeNumber(params.get('year'));
+  const value = params.has('value') ? Number(params.get('value')) : null;
+  if (!catalogueModel || year === null || !getVehicleModelYears(catalogueModel).includes(year)
+    || (value !== null && !(value > 0))) {
+    return undefined;
+  }
+  return { make: make!, model: model!, year, value };
+};
+
+const parseAnswers = (params: URLSearchParams) => ({
+  location: parseLocation(params),
+  age: parseAge(params),
+  gender: parseOption(params.get('gender'), GENDERS),
+  priority: parseOption(params.get('priority'), PRIORITIES),
+  selectedFeatures: parseFeatures(params.get('features')),
+  vehicle: parseVehicle(params),
+  annualKm: params.has('km') ? parseWholeNumber(params.get('km')) ?? undefined : null,
+});
+
+// Quiz answers, leaving out any that are missing or invalid
+const toQuizData = (answers: ReturnType<typeof parseAnswers>, params: URLSearchParams): QuizData => ({
+  state: answers.location?.state ?? null,
+  postcode: answers.location?.postcode ?? null,
+  ageGroup: answers.age?.ageGroup ?? null,
+  age: answers.age?.age ?? null,
+  gender: answers.gender ?? null,
+  vehicle: answers.vehicle ?? null,
+  annualKm: answers.annualKm ?? null,
+  paymentFrequency: params.get('payment') === 'monthly' ? 'Monthly' : 'Annual',
+  priority: answers.priority ?? null,
+  selectedFeatures: answers.selectedFeatures ?? [],
+  includeOptionalCover: params.get('optional') === 'true',
+});
+
+// Read a comparison link back into quiz answers; null when a parameter is missing or invalid
+export const parseComparisonParams = (params: URLSearchParams): ComparisonLink | null => {
+  const answers = parseAnswers(params);
+  if (!answers.location || !answers.age || !answers.gender || !answers.priority
+    || Object.values(answers).includes(undefined)) {
+    return null;
+  }
+  return { quizData: toQuizData(answers, params), datasetVersion: params.get('dataset') };
+};
+
+export const parseResultsSort = (params: URLSearchParams): ResultsSort => {
+  const column = parseOption(params.get('sort'), SORT_COLUMNS) ?? null;
+  return { column, direction: column && params.get('dir') === 'asc' ? 'asc' : 'desc' };
+};
+
+// Furthest step the answers reach: location, age and gender (0-2) must be answered to move on,
+// vehicle, kilometres and payment (3-5) are optional, and a Features priority (6) leads to features (7)
+const getFurthestStep = (quizData: QuizData): number => {
+  if (!quizData.state) return 0;
+  if (quizData.age === null && !quizData.ageGroup) return 1;
+  if (!quizData.gender) return 2;
+  return quizData.priority === 'Features' ? 7 : 6;
+};
+
+// Read the address bar back into quiz progress. Invalid answers are dropped and the step is
+// pulled back to the first one still to answer; an invalid comparison link opens the quiz where its answers stop.
+export const parseQuizLocation = (pathname: string, search: string): QuizLocation => {
+  const params = new URLSearchParams(search);
+  const sort = parseResultsSort(params);
+  const link = pathname === COMPARISON_PATH ? parseComparisonParams(params) : null;
+  if (link) {
+    return { quizData: link.quizData, step: getFurthestStep(link.quizData), showResults: true, sort };
+  }
+
+  const quizData = toQuizData(parseAnswers(params), params);
+  const furthestStep = getFurthestStep(quizData);
+  const requestedStep = parseWholeNumber(params.get('step'));
+  const step = requestedStep !== null ? Math.max(0, Math.min(requestedStep - 1, furthestStep)) : pathname === COMPARISON_PATH ? furthestStep : 0;
+  return { quizData, step, showResults: false, sort };
+};
@@ -0,0 +1,112 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import Papa from 'papaparse';
+import { describe, expect, it } from 'vitest';
+import { DataValidationReport, formatValidationReport, validateInsuranceCsv } from './csvValidator';
+
+// The bundled data, and copies of it with one thing broken
+const CSV_TEXT = readFileSync(path.join(process.cwd(), 'public', 'insurance-data.csv'), 'utf-8');
+const { data: ROWS, meta } = Papa.parse<Record<string, string>>(CSV_TEXT, { header: true, skipEmptyLines: true });
+const FIELDS = meta.fields!;
+const PRICE_COLUMN = '2025-AUFCI-NSW-F-30';
+
+const csvWith = (editRow: (row: Record<string, string>, index: number) => void, fields: string[] = FIELDS): string => {
+  const rows = ROWS.map(row => ({ ...row }));
+  rows.forEach(editRow);
+  return Papa.unparse({ fields, data: rows.map(row => fields.map(field => row[field] ?? '')) });
+};
+
+const issueKinds = (report: DataValidationReport) => report.issues.map(({ severity, kind, row, column }) => ({ severity, kind, row, column }));
+
+describe('validateInsuranceCsv', () => {
+  it('accepts the bundled data, with warnings only', () => {
+    const report = validateInsuranceCsv(CSV_TEXT);
+
+    expect(report.isValid).toBe(true);
+    expect(report.errorCount).toBe(0);
+    expect(report.rowCount).toBe(ROWS.length);
+    expect(report.priceColumnCount).toBeGreaterThan(0);
+  });
+
+  it('reports a missing required column', () => {
+    const report = validateInsuranceCsv(csvWith(() => {}, FIELDS.filter(field => field !== 'STORM')));
+
+    expect(report.isValid).toBe(false);
+    expect(issueKinds(report)).toContainEqual({ severity: 'error', kind: 'missingColumn', row: null, column: 'STORM' });
+  });
+
+  it('reports a price column that does not match the pattern', () => {
+    const report = validateInsuranceCsv(csvWith(() => {}, [...FIELDS, '2025-AUFCI-NSW-X-30']));
+
+    expect(issueKinds(report)).toContainEqual({ severity: 'error', kind: 'unrecognisedPriceColumn', row: null, column: '2025-AUFCI-NSW-X-30' });
+  });
+
+  it('reports duplicate product IDs on the repeated row', () => {
+    const report = validateInsuranceCsv(csvWith((row, index) => {
+      if (index === 1) {
+        row.ID = ROWS[0].ID;
+      }
+    }));
+
+    expect(issueKinds(report)).toContainEqual({ severity: 'error', kind: 'duplicateId', row: 2, column: 'ID' });
+  });
+
+  it('fails a non-numeric price but only warns about an explained missing quote', () => {
+    const report = validateInsuranceCsv(csvWith((row, index) => {
+      if (index === 0) {
+        row[PRICE_COLUMN] = '$1,200';
+      }
+      if (index === 1) {
+        row[PRICE_COLUMN] = 'N/A';
+      }
+    }));
+
+    expect(issueKinds(report)).toContainEqual({ severity: 'error', kind: 'nonNumericPrice', row: 1, column: PRICE_COLUMN });
+    expect(issueKinds(report)).toContainEqual({ severity: 'warning', kind: 'priceNotOffered', row: 2, column: PRICE_COLUMN });
+  });
+
+  it('reports non-numeric values and unknown enum values', () => {
+    const report = validateInsuranceCsv(csvWith((row, index) => {
+      if (index === 0) {
+        row.ROADSIDE_ASSISTANCE_COST = 'ninety';
+        row.STORM = 'Maybe';
+      }
+    }));
+
+    expect(issueKinds(report)).toContainEqual({ severity: 'error', kind: 'nonNumericValue', row: 1, column: 'ROADSIDE_ASSISTANCE_COST' });
+    expect(issueKinds(report)).toContainEqual({ severity: 'error', kind: 'unknownEnumValue', row: 1, column: 'STORM' });
+  });
+
+  it('warns when duplicate columns disagree, but not when one is blank', () => {
+    const report = validateInsuranceCsv(csvWith((row, index) => {
+      if (index === 0) {
+        row.HIRE_CAR_AFTER_ACCIDENT = 'Yes - Up to $1,000';
+        row.HIRE_CAR_ACCIDENT = 'No';
+      }
+      if (index === 1) {
+        row.HIRE_CAR_AFTER_ACCIDENT = 'Yes - Up to $1,000';
+        row.HIRE_CAR_ACCIDENT = '';
+      }
+    }));
+    const conflicts = report.issues.filter(issue =>
+      issue.kind === 'conflictingDuplicateColumns' && issue.column === 'HIRE_CAR_AFTER_ACCIDENT/HIRE_CAR_ACCIDENT' && issue.row !== null && issue.row <= 2);
+
+    expect(conflicts.map(({ severity, row, column }) => ({ severity, row, column }))).toEqual([
+      { severity: 'warning', row: 1, column: 'HIRE_CAR_AFTER_ACCIDENT/HIRE_CAR_ACCIDENT' },
+    ]);
+  });
+});
+
+describe('formatValidationReport', () => {
+  it('summarises the report and lists each issue with its row and product', () => {
+    const report = validateInsuranceCsv(csvWith((row, index) => {
+      if (index === 0) {
+        row.STORM = 'Maybe';
+      }
+    }));
+    const [summary, ...lines] = formatValidationReport(report).split('\n');
+
+    expect(summary).toMatch(/^INVALID: \d+ rows, \d+ price columns, 1 errors, \d+ warnings$/);
+    expect(lines).toContain(`  [error] row 1 (${ROWS[0].ID}): Unknown value "Maybe" in STORM (expected one of: Yes, No, Optional)`);
+  });
+});
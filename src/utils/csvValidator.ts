@@ -0,0 +1,240 @@
+import Papa from 'papaparse';
+import { InsuranceProduct } from '../types';
+import { parseCoverageLevel } from './featureCatalogue';
+import { parsePriceColumn } from './priceMatrix';
+import { MONTHLY_LOADING_COLUMN } from './payment';
+
+export type DataIssueKind =
+  | 'parseError'
+  | 'missingColumn'
+  | 'unrecognisedPriceColumn'
+  | 'duplicateId'
+  | 'nonNumericPrice'
+  | 'priceNotOffered'
+  | 'nonNumericValue'
+  | 'unknownEnumValue'
+  | 'conflictingDuplicateColumns';
+
+export interface DataValidationIssue {
+  severity: 'error' | 'warning';
+  kind: DataIssueKind;
+  row: number | null; // 1-based data row (header excluded), null for file-level issues
+  productId?: string;
+  column?: string;
+  message: string;
+}
+
+export interface DataValidationReport {
+  isValid: boolean; // No errors (warnings are allowed)
+  rowCount: number;
+  priceColumnCount: number;
+  errorCount: number;
+  warningCount: number;
+  issues: DataValidationIssue[];
+}
+
+type ProductColumn = Extract<keyof InsuranceProduct, string>;
+
+// Every non-price column the app reads from the CSV
+const REQUIRED_COLUMNS: ProductColumn[] = [
+  'ID', 'ACTIVE', 'NAME', 'PROVIDER_ID',
+  'AGREED_OR_MARKET_VALUE', 'AGREED_MARKET_VALUE',
+  'CHOICE_OF_REPAIRER', 'LIFETIME_GUARANTEE_ON_REPAIRS',
+  'NEW_CAR_REPLACEMENT', 'NEWCAR_REPLACEMENT', 'NEWCAR_REPLACEMENT_DETAILS',
+  'PERSONAL_EFFECTS', 'PERSONALEFFECTS', 'PERSONALEFFECTS_DETAILS',
+  'ROADSIDE_ASSISTANCE', 'ROADSIDE_ASSISTANCE_COST', 'STORM', 'TOWING',
+  'KEY_REPLACEMENT', 'KEYREPLACEMENT', 'KEYREPLACEMENT_DETAILS',
+  'CHILD_SEAT_BABY_CAPSULES', 'CHILD_SEAT_BABY_CAPSULES_DETAILS',
+  'EMERGENCY_TRANSPORT_AND_ACCOMMODATION', 'EMERGENCY_TRANSPORT_ACCOMMODATION', 'EMERGENCY_TRANSPORT_ACCOMMODATION_DETAILS',
+  'ESSENTIAL_EMERGENCY_REPAIRS', 'ESSENTIAL_EMERGENCY_REPAIR', 'ESSENTIAL_EMERGENCY_REPAIR_DETAILS',
+  'HIRE_CAR_AFTER_ACCIDENT', 'HIRE_CAR_ACCIDENT', 'RESTRICTED_DRIVER_OPTION',
+  'NO_EXCESS_WINDSCREEN', 'WINDSCREEN', 'PAY_MONTHLY_YES', 'REDUCED_EXCESS_WINDSCREEN',
+  'PRICE_SCORE', 'COVER_SCORE', 'FINDER_SCORE', 'INSURANCE_TYPE', 'ACCIDENTAL_DAMAGE',
+];
+
+// Anything that looks like a price column; it must then match the full price column pattern
+const PRICE_COLUMN_PREFIX = /^\d{4}-AUFCI-/;
+// Price cells that explain why there is no quote, e.g. "N/A" or "GIO does not offer insurance in Tasmania"
+const NOT_OFFERED_PATTERN = /^n\/?a$|does not offer/i;
+
+const YES_NO_OPTIONAL = ['Yes', 'No', 'Optional', ''];
+const TRUE_FALSE = ['TRUE', 'FALSE'];
+
+// Allowed values for enum-like columns
+const ENUM_COLUMNS: Partial<Record<ProductColumn, string[]>> = {
+  ACTIVE: TRUE_FALSE,
+  AGREED_OR_MARKET_VALUE: ['Agreed', 'Market', 'Agreed or Market'],
+  AGREED_MARKET_VALUE: ['Agreed', 'Market', 'Agreed or Market', ''],
+  CHOICE_OF_REPAIRER: YES_NO_OPTIONAL,
+  LIFETIME_GUARANTEE_ON_REPAIRS: YES_NO_OPTIONAL,
+  NEWCAR_REPLACEMENT: YES_NO_OPTIONAL,
+  PERSONALEFFECTS: YES_NO_OPTIONAL,
+  ROADSIDE_ASSISTANCE: YES_NO_OPTIONAL,
+  STORM: YES_NO_OPTIONAL,
+  TOWING: YES_NO_OPTIONAL,
+  KEYREPLACEMENT: YES_NO_OPTIONAL,
+  CHILD_SEAT_BABY_CAPSULES: YES_NO_OPTIONAL,
+  EMERGENCY_TRANSPORT_ACCOMMODATION: YES_NO_OPTIONAL,
+  ESSENTIAL_EMERGENCY_REPAIR: YES_NO_OPTIONAL,
+  HIRE_CAR_ACCIDENT: YES_NO_OPTIONAL,
+  NO_EXCESS_WINDSCREEN: YES_NO_OPTIONAL,
+  WINDSCREEN: YES_NO_OPTIONAL,
+  PAY_MONTHLY_YES: YES_NO_OPTIONAL,
+  REDUCED_EXCESS_WINDSCREEN: YES_NO_OPTIONAL,
+  ACCIDENTAL_DAMAGE: YES_NO_OPTIONAL,
+  RESTRICTED_DRIVER_OPTION: [...TRUE_FALSE, ''],
+  INSURANCE_TYPE: ['Comprehensive', 'Third Party Property', 'Third Party Fire and Theft'],
+};
+
+// Columns that must be numbers when filled in (MONTHLY_LOADING_COLUMN is optional)
+const NUMERIC_COLUMNS: ProductColumn[] = [
+  'PERSONAL_EFFECTS', 'ROADSIDE_ASSISTANCE_COST', 'PRICE_SCORE', 'COVER_SCORE', 'FINDER_SCORE', MONTHLY_LOADING_COLUMN,
+];
+
+// Column pairs carrying the same information under two names
+const DUPLICATE_COLUMN_PAIRS: { columns: [ProductColumn, ProductColumn]; compare: 'coverage' | 'text' }[] = [
+  { columns: ['NEW_CAR_REPLACEMENT', 'NEWCAR_REPLACEMENT'], compare: 'coverage' },
+  { columns: ['PERSONAL_EFFECTS', 'PERSONALEFFECTS'], compare: 'coverage' },
+  { columns: ['KEY_REPLACEMENT', 'KEYREPLACEMENT'], compare: 'coverage' },
+  { columns: ['EMERGENCY_TRANSPORT_AND_ACCOMMODATION', 'EMERGENCY_TRANSPORT_ACCOMMODATION'], compare: 'coverage' },
+  { columns: ['ESSENTIAL_EMERGENCY_REPAIRS', 'ESSENTIAL_EMERGENCY_REPAIR'], compare: 'coverage' },
+  { columns: ['HIRE_CAR_AFTER_ACCIDENT', 'HIRE_CAR_ACCIDENT'], compare: 'coverage' },
+  { columns: ['AGREED_OR_MARKET_VALUE', 'AGREED_MARKET_VALUE'], compare: 'text' },
+];
+
+const isNumeric = (value: string): boolean => value.trim() !== '' && !isNaN(Number(value.trim()));
+
+export const isPriceColumn = (column: string): boolean => parsePriceColumn(column) !== null;
+
+// Check the raw insurance CSV against the InsuranceProduct shape.
+// Errors make the data unusable; warnings (e.g. conflicting duplicate columns) are reported only.
+export const validateInsuranceCsv = (csvText: string): DataValidationReport => {
+  const result = Papa.parse<Record<string, string>>(csvText, {
+    header: true,
+    skipEmptyLines: true,
+  });
+  const issues: DataValidationIssue[] = [];
+  const columns = result.meta.fields || [];
+  const priceColumns = columns.filter(isPriceColumn);
+
+  result.errors.forEach(error => {
+    issues.push({
+      severity: 'error',
+      kind: 'parseError',
+      row: typeof error.row === 'number' ? error.row + 1 : null,
+      message: `CSV parse error: ${error.message}`,
+    });
+  });
+
+  REQUIRED_COLUMNS
+    .filter(column => !columns.includes(column))
+    .forEach(column => {
+      issues.push({ severity: 'error', kind: 'missingColumn', row: null, column, message: `Missing column ${column}` });
+    });
+
+  columns
+    .filter(column => PRICE_COLUMN_PREFIX.test(column) && !isPriceColumn(column))
+    .forEach(column => {
+      issues.push({
+        severity: 'error',
+        kind: 'unrecognisedPriceColumn',
+        row: null,
+        column,
+        message: `Column ${column} looks like a price column but doesn't match YEAR-AUFCI-STATE-M|F-AGE`,
+      });
+    });
+
+  if (priceColumns.length === 0) {
+    issues.push({ severity: 'error', kind: 'missingColumn', row: null, message: 'No price columns (e.g. 2025-AUFCI-NSW-F-30) found' });
+  }
+
+  const seenIds = new Set<string>();
+
+  result.data.forEach((row, index) => {
+    const rowNumber = index + 1;
+    const productId = row.ID;
+    const addIssue = (issue: Omit<DataValidationIssue, 'row' | 'productId'>) =>
+      issues.push({ ...issue, row: rowNumber, productId });
+
+    if (productId) {
+      if (seenIds.has(productId)) {
+        addIssue({ severity: 'error', kind: 'duplicateId', column: 'ID', message: `Duplicate product ID ${productId}` });
+      }
+      seenIds.add(productId);
+    }
+
+    priceColumns.forEach(column => {
+      const value = row[column] ?? '';
+      if (value.trim() === '' || isNumeric(value)) {
+        return;
+      }
+      if (NOT_OFFERED_PATTERN.test(value.trim())) {
+        addIssue({ severity: 'warning', kind: 'priceNotOffered', column, message: `No quote in ${column}: "${value}"` });
+      } else {
+        addIssue({ severity: 'error', kind: 'nonNumericPrice', column, message: `Price "${value}" in ${column} is not a number` });
+      }
+    });
+
+    NUMERIC_COLUMNS.forEach(column => {
+      const value = row[column] ?? '';
+      if (value.trim() !== '' && !isNumeric(value)) {
+        addIssue({ severity: 'error', kind: 'nonNumericValue', column, message: `Value "${value}" in ${column} is not a number` });
+      }
+    });
+
+    (Object.entries(ENUM_COLUMNS) as [ProductColumn, string[]][]).forEach(([column, allowed]) => {
+      const value = row[column];
+      if (value !== undefined && !allowed.includes(value.trim())) {
+        addIssue({
+          severity: 'error',
+          kind: 'unknownEnumValue',
+          column,
+          message: `Unknown value "${value}" in ${column} (expected one of: ${allowed.filter(Boolean).join(', ')})`,
+        });
+      }
+    });
+
+    DUPLICATE_COLUMN_PAIRS.forEach(({ columns: [first, second], compare }) => {
+      const firstValue = row[first];
+      const secondValue = row[second];
+      // A blank cell on either side is missing data, not a conflict
+      if (!firstValue?.trim() || !secondValue?.trim()) {
+        return;
+      }
+      const conflicts = compare === 'coverage'
+        ? parseCoverageLevel(firstValue) !== parseCoverageLevel(secondValue)
+        : firstValue.trim().toLowerCase() !== secondValue.trim().toLowerCase();
+      if (conflicts) {
+        addIssue({
+          severity: 'warning',
+          kind: 'conflictingDuplicateColumns',
+          column: `${first}/${second}`,
+          message: `${first} "${firstValue}" disagrees with ${second} "${secondValue}"`,
+        });
+      }
+    });
+  });
+
+  const errorCount = issues.filter(issue => issue.severity === 'error').length;
+
+  return {
+    isValid: errorCount === 0,
+    rowCount: result.data.length,
+    priceColumnCount: priceColumns.length,
+    errorCount,
+    warningCount: issues.length - errorCount,
+    issues,
+  };
+};
+
+// Human-readable report for logs and the validate:data CLI
+export const formatValidationReport = (report: DataValidationReport): string => {
+  const lines = [
+    `${report.isValid ? 'VALID' : 'INVALID'}: ${report.rowCount} rows, ${report.priceColumnCount} price columns, ${report.errorCount} errors, ${report.warningCount} warnings`,
+    ...report.issues.map(issue => {
+      const location = issue.row === null ? 'file' : `row ${issue.row}${issue.productId ? ` (${issue.productId})` : ''}`;
+      return `  [${issue.severity}] ${location}: ${issue.message}`;
+    }),
+  ];
+  return lines.join('\n');
+};
@@ -0,0 +1,210 @@
+import { CoverageLevel, InsuranceProduct, SelectedFeature } from '../types';
+import { getHireCarGenerosity, parseBenefitDetails } from './benefitParser';
+
+export interface FeatureDefinition {
+  id: SelectedFeature;
+  label: string;
+  description: string;
+  // CSV column the feature is read from
+  column: keyof InsuranceProduct;
+  // boolean: scored by cover level, numeric: also ranked by amount
+  kind: 'boolean' | 'numeric';
+  // Amount used to rank numeric features (defaults to the column parsed as a number)
+  amount?: (product: InsuranceProduct) => number;
+  // Core features always count towards the feature score; others only when selected
+  core: boolean;
+  // Column holding the Yes / Optional / No cover level for numeric features
+  coverageColumn?: keyof InsuranceProduct;
+  // Custom cover level parser for columns that don't use Yes / Optional / No values
+  parseCoverage?: (value: string) => CoverageLevel;
+}
+
+// Every feature a user can select, filter and weight by.
+// Adding a feature only needs a new entry here (plus its SelectedFeature id).
+export const FEATURE_CATALOGUE: FeatureDefinition[] = [
+  {
+    id: 'STORM',
+    label: '🌩️ Storm Coverage',
+    description: 'Protection against storm and weather damage',
+    column: 'STORM',
+    kind: 'boolean',
+    core: true,
+  },
+  {
+    id: 'WINDSCREEN',
+    label: '🪟 Windscreen Coverage',
+    description: 'Coverage for windscreen repairs and replacement',
+    column: 'WINDSCREEN',
+    kind: 'boolean',
+    core: true,
+  },
+  {
+    id: 'PERSONAL_EFFECTS',
+    label: '👜 Personal Effects Coverage',
+    description: 'Coverage for personal items in your vehicle',
+    column: 'PERSONAL_EFFECTS',
+    kind: 'numeric',
+    coverageColumn: 'PERSONALEFFECTS',
+    amount: (product) =>
+      parseFloat(product.PERSONAL_EFFECTS) || parseBenefitDetails(product.PERSONALEFFECTS_DETAILS).amountCap || 0,
+    core: true,
+  },
+  {
+    id: 'ACCIDENTAL_DAMAGE',
+    label: '🚗 Accidental Damage Coverage',
+    description: 'Protection against accidental damage to your vehicle',
+    column: 'ACCIDENTAL_DAMAGE',
+    kind: 'boolean',
+    core: true,
+  },
+  {
+    id: 'NEW_CAR_REPLACEMENT',
+    label: '🆕 New Car Replacement',
+    description: 'Get a new car if yours is written off in the first few years',
+    column: 'NEW_CAR_REPLACEMENT',
+    kind: 'numeric',
+    coverageColumn: 'NEWCAR_REPLACEMENT',
+    // Ranked by how many years the car stays eligible
+    amount: (product) =>
+      parseBenefitDetails(product.NEWCAR_REPLACEMENT_DETAILS || product.NEW_CAR_REPLACEMENT).yearLimit || 0,
+    core: true,
+  },
+  {
+    id: 'CHOICE_OF_REPAIRER',
+    label: '🔧 Choice of Repairer',
+    description: 'Choose your own repairer after a claim',
+    column: 'CHOICE_OF_REPAIRER',
+    kind: 'boolean',
+    core: false,
+  },
+  {
+    id: 'LIFETIME_GUARANTEE',
+    label: '🛠️ Lifetime Guarantee on Repairs',
+    description: 'Authorised repairs are guaranteed for as long as you own the car',
+    column: 'LIFETIME_GUARANTEE_ON_REPAIRS',
+    kind: 'boolean',
+    core: false,
+  },
+  {
+    id: 'ROADSIDE_ASSISTANCE',
+    label: '🚨 Roadside Assistance',
+    description: 'Help if you break down, get a flat or lock your keys in',
+    column: 'ROADSIDE_ASSISTANCE',
+    kind: 'boolean',
+    core: false,
+  },
+  {
+    id: 'TOWING',
+    label: '🚚 Towing',
+    description: 'Towing costs after an accident are covered',
+    column: 'TOWING',
+    kind: 'boolean',
+    core: false,
+  },
+  {
+    id: 'KEY_REPLACEMENT',
+    label: '🔑 Key Replacement',
+    description: 'Replacement of lost or stolen car keys and locks',
+    column: 'KEYREPLACEMENT',
+    kind: 'boolean',
+    core: false,
+  },
+  {
+    id: 'CHILD_SEAT',
+    label: '👶 Child Seat Cover',
+    description: 'Replacement of child seats and baby capsules after an accident',
+    column: 'CHILD_SEAT_BABY_CAPSULES',
+    kind: 'boolean',
+    core: false,
+  },
+  {
+    id: 'EMERGENCY_TRANSPORT',
+    label: '🏨 Emergency Transport & Accommodation',
+    description: 'Travel and accommodation costs if you are stranded far from home',
+    column: 'EMERGENCY_TRANSPORT_ACCOMMODATION',
+    kind: 'boolean',
+    core: false,
+  },
+  {
+    id: 'HIRE_CAR',
+    label: '🚙 Hire Car After Accident',
+    description: 'A hire car while yours is being repaired',
+    column: 'HIRE_CAR_AFTER_ACCIDENT',
+    kind: 'numeric',
+    coverageColumn: 'HIRE_CAR_ACCIDENT',
+    // Ranked by total hire benefit (cap, or daily rate x max days)
+    amount: (product) => getHireCarGenerosity(parseBenefitDetails(product.HIRE_CAR_AFTER_ACCIDENT)),
+    core: false,
+  },
+  {
+    id: 'PAY_MONTHLY',
+    label: '📅 Pay Monthly',
+    description: 'Spread your premium over monthly payments',
+    column: 'PAY_MONTHLY_YES',
+    kind: 'boolean',
+    core: false,
+  },
+  {
+    id: 'AGREED_VALUE',
+    label: '💲 Agreed Value',
+    description: 'Insure your car for an agreed amount rather than market value',
+    column: 'AGREED_OR_MARKET_VALUE',
+    kind: 'boolean',
+    core: false,
+    parseCoverage: (value) => value.toLowerCase().includes('agreed') ? 'included' : 'notCovered',
+  },
+];
+
+export const getFeatureDefinition = (id: SelectedFeature): FeatureDefinition => {
+  const definition = FEATURE_CATALOGUE.find(feature => feature.id === id);
+  if (!definition) {
+    throw new Error(`Unknown feature: ${id}`);
+  }
+  return definition;
+};
+
+// Features that count towards the feature score: all core features plus any selected ones
+export const getScoredFeatures = (selectedFeatures: SelectedFeature[]): FeatureDefinition[] =>
+  FEATURE_CATALOGUE.filter(feature => feature.core || selectedFeatures.includes(feature.id));
+
+// Normalise a raw CSV cell into a cover level.
+// Cells such as "Optional - Up to $50 per day" are paid add-ons; any other
+// non-empty value ("Yes", "Yes - If your car...", "$1,000") means the cover is included.
+export const parseCoverageLevel = (rawValue: string): CoverageLevel => {
+  const value = rawValue.trim().toLowerCase();
+
+  if (value === '' || value === 'no' || value === 'false' || value === '0') {
+    return 'notCovered';
+  }
+  if (value.startsWith('optional')) {
+    return 'optional';
+  }
+  return 'included';
+};
+
+const readColumn = (product: InsuranceProduct, column: keyof InsuranceProduct): string =>
+  (product[column] || '').trim();
+
+// Cover level of a feature for one CSV row.
+// Numeric features without a cover column are included whenever they have an amount.
+export const getFeatureCoverage = (product: InsuranceProduct, feature: FeatureDefinition): CoverageLevel => {
+  if (feature.coverageColumn) {
+    return parseCoverageLevel(readColumn(product, feature.coverageColumn));
+  }
+  if (feature.kind === 'numeric') {
+    return getFeatureAmount(product, feature) > 0 ? 'included' : 'notCovered';
+  }
+
+  const rawValue = readColumn(product, feature.column);
+  return feature.parseCoverage ? feature.parseCoverage(rawValue) : parseCoverageLevel(rawValue);
+};
+
+// Amount for numeric features (e.g. personal effects limit), 0 when not offered or unknown
+export const getFeatureAmount = (product: InsuranceProduct, feature: FeatureDefinition): number => {
+  if (feature.kind !== 'numeric') {
+    return 0;
+  }
+  return feature.amount
+    ? feature.amount(product)
+    : parseFloat(readColumn(product, feature.column)) || 0;
+};
@@ -0,0 +1,20 @@
+import { InsuranceProduct, MonthlyPaymentEstimate } from '../types';
+import { getProductPrice } from './priceMatrix';
+
+// Optional CSV column with the surcharge for paying monthly, as a percentage of the annual premium (e.g. "8.5").
+// Products without it are assumed to charge nothing extra, and say so via loadingPercent = null.
+export const MONTHLY_LOADING_COLUMN = 'MONTHLY_LOADING_PERCENT';
+
+export const getMonthlyLoadingPercent = (product: InsuranceProduct): number | null =>
+  (product[MONTHLY_LOADING_COLUMN] ?? '').trim() !== '' ? getProductPrice(product, MONTHLY_LOADING_COLUMN) : null;
+
+export const estimateMonthlyPayment = (product: InsuranceProduct, annualPremium: number): MonthlyPaymentEstimate => {
+  const loadingPercent = getMonthlyLoadingPercent(product);
+  const annualEquivalent = Math.round(annualPremium * (1 + (loadingPercent ?? 0) / 100) * 100) / 100;
+
+  return {
+    monthlyPremium: Math.round((annualEquivalent / 12) * 100) / 100,
+    annualEquivalent,
+    loadingPercent,
+  };
+};
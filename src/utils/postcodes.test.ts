@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { isValidPostcodeFormat, resolvePostcode } from './postcodes';
+
+describe('resolvePostcode', () => {
+  it.each([
+    ['2000', 'NSW'],
+    ['3000', 'VIC'],
+    ['8001', 'VIC'],
+    ['4000', 'QLD'],
+    ['9726', 'QLD'],
+    ['5000', 'SA'],
+    ['6000', 'WA'],
+    ['7000', 'TAS'],
+  ])('resolves %s to %s', (postcode, state) => {
+    expect(resolvePostcode(postcode)).toEqual({ postcode, region: state, state, isFallback: false });
+  });
+
+  it('prices ACT postcodes as NSW, including the ranges carved out of the NSW block', () => {
+    ['2600', '2618', '2900', '2920', '0200'].forEach(postcode => {
+      expect(resolvePostcode(postcode)).toEqual({ postcode, region: 'ACT', state: 'NSW', isFallback: true });
+    });
+  });
+
+  it('keeps NSW postcodes either side of the ACT ranges as NSW', () => {
+    ['2599', '2619', '2899', '2921'].forEach(postcode => {
+      expect(resolvePostcode(postcode)?.region).toBe('NSW');
+    });
+  });
+
+  it('resolves NT postcodes without a pricing state', () => {
+    expect(resolvePostcode('0800')).toEqual({ postcode: '0800', region: 'NT', state: null, isFallback: false });
+  });
+
+  it('trims surrounding spaces', () => {
+    expect(resolvePostcode(' 3000 ')?.postcode).toBe('3000');
+  });
+
+  it('returns null for malformed and unallocated postcodes', () => {
+    ['300', '30000', 'ABCD', '', '0100'].forEach(postcode => {
+      expect(resolvePostcode(postcode)).toBeNull();
+    });
+  });
+});
+
+describe('isValidPostcodeFormat', () => {
+  it('accepts exactly four digits', () => {
+    expect(isValidPostcodeFormat('0800')).toBe(true);
+    expect(isValidPostcodeFormat('800')).toBe(false);
+    expect(isValidPostcodeFormat('08 00')).toBe(false);
+  });
+});
@@ -0,0 +1,56 @@
+import { AustralianState, PostcodeRegion, Territory } from '../types';
+
+// Australia Post postcode ranges by state / territory (inclusive).
+// The NSW 2xxx block has the ACT ranges (2600-2618, 2900-2920) carved out of it.
+const POSTCODE_RANGES: { from: number; to: number; region: PostcodeRegion }[] = [
+  { from: 200, to: 299, region: 'ACT' }, // PO boxes (e.g. 0200 ANU)
+  { from: 2600, to: 2618, region: 'ACT' },
+  { from: 2900, to: 2920, region: 'ACT' },
+  { from: 800, to: 999, region: 'NT' },
+  { from: 1000, to: 2599, region: 'NSW' },
+  { from: 2619, to: 2899, region: 'NSW' },
+  { from: 2921, to: 2999, region: 'NSW' },
+  { from: 3000, to: 3999, region: 'VIC' },
+  { from: 8000, to: 8999, region: 'VIC' },
+  { from: 4000, to: 4999, region: 'QLD' },
+  { from: 9000, to: 9999, region: 'QLD' },
+  { from: 5000, to: 5999, region: 'SA' },
+  { from: 6000, to: 6999, region: 'WA' },
+  { from: 7000, to: 7999, region: 'TAS' },
+];
+
+// Territories have no price columns. ACT is priced as NSW, which surrounds it;
+// NT has no sensible neighbour to borrow from, so it is unsupported.
+const TERRITORY_FALLBACK_STATES: Record<Territory, AustralianState | null> = {
+  ACT: 'NSW',
+  NT: null,
+};
+
+export interface PostcodeResolution {
+  postcode: string;
+  region: PostcodeRegion;
+  state: AustralianState | null; // State used for pricing; null when the region is unsupported
+  isFallback: boolean; // true when priced as a different state than the postcode's own
+}
+
+export const isValidPostcodeFormat = (postcode: string): boolean => /^\d{4}$/.test(postcode.trim());
+
+// Resolve a 4-digit postcode to its region and pricing state; null for malformed or unallocated postcodes
+export const resolvePostcode = (postcode: string): PostcodeResolution | null => {
+  const trimmed = postcode.trim();
+  if (!isValidPostcodeFormat(trimmed)) {
+    return null;
+  }
+
+  const value = parseInt(trimmed, 10);
+  const range = POSTCODE_RANGES.find(({ from, to }) => value >= from && value <= to);
+  if (!range) {
+    return null;
+  }
+
+  if (range.region === 'ACT' || range.region === 'NT') {
+    const state = TERRITORY_FALLBACK_STATES[range.region];
+    return { postcode: trimmed, region: range.region, state, isFallback: state !== null };
+  }
+  return { postcode: trimmed, region: range.region, state: range.region, isFallback: false };
+};
@@ -0,0 +1,160 @@
+import { InsuranceProduct, PriceTrend } from '../types';
+import { GenderCode, PriceColumn, PriceLookup, PriceMatrix, buildPriceMatrixFromProducts, getLookupColumns, getLookupPrice, getProductPrice, parsePriceColumn } from './priceMatrix';
+
+// Year-over-year premium analytics on top of the price matrix.
+// A segment is one state / gender / age band; each year of data has its own column per segment.
+
+export interface SegmentYearPremium {
+  year: number;
+  premium: number | null; // null when the product has no quote that year
+  rank: number | null; // 1 = cheapest product in the segment that year
+  segmentSize: number; // Products with a quote in the segment that year
+}
+
+export interface SegmentPriceHistory {
+  state: string;
+  gender: GenderCode;
+  ageBand: number;
+  years: SegmentYearPremium[]; // Ascending by year
+  changePercent: number | null; // Latest quoted year vs the one before
+  rankChange: number | null; // Positive = moved up (became relatively cheaper)
+}
+
+export interface ProductPriceHistory {
+  productId: string;
+  name: string;
+  years: number[];
+  segments: SegmentPriceHistory[];
+}
+
+// Rank products by premium (cheapest = 1); unquoted products are left out
+const rankByPremium = (products: InsuranceProduct[], getPremium: (product: InsuranceProduct) => number): Map<string, number> => {
+  const ranks = new Map<string, number>();
+  products
+    .map(product => ({ id: product.ID, premium: getPremium(product) }))
+    .filter(entry => entry.premium > 0)
+    .sort((a, b) => a.premium - b.premium)
+    .forEach((entry, index) => ranks.set(entry.id, index + 1));
+  return ranks;
+};
+
+const getPercentChange = (previous: number, current: number): number =>
+  Math.round(((current - previous) / previous) * 1000) / 10; // 1 decimal place
+
+const segmentKey = (column: PriceColumn): string => `${column.state}-${column.gender}-${column.ageBand}`;
+
+// Compare the latest two quoted years of a segment
+const summariseSegment = (years: SegmentYearPremium[]): Pick<SegmentPriceHistory, 'changePercent' | 'rankChange'> => {
+  const quoted = years.filter(entry => entry.premium !== null);
+  if (quoted.length < 2) {
+    return { changePercent: null, rankChange: null };
+  }
+
+  const previous = quoted[quoted.length - 2];
+  const latest = quoted[quoted.length - 1];
+  return {
+    changePercent: getPercentChange(previous.premium!, latest.premium!),
+    rankChange: previous.rank !== null && latest.rank !== null ? previous.rank - latest.rank : null,
+  };
+};
+
+// Premiums, percentage change and rank movement for every segment a product is priced in.
+// Returns null when the product isn't in the dataset.
+export const getProductPriceHistory = (
+  products: InsuranceProduct[],
+  productId: string,
+  priceMatrix: PriceMatrix = buildPriceMatrixFromProducts(products)
+): ProductPriceHistory | null => {
+  const product = products.find(p => p.ID === productId);
+  if (!product) {
+    return null;
+  }
+
+  const columnsBySegment = new Map<string, PriceColumn[]>();
+  priceMatrix.columns.forEach(column => {
+    const key = segmentKey(column);
+    columnsBySegment.set(key, [...(columnsBySegment.get(key) || []), column]);
+  });
+
+  const segments = Array.from(columnsBySegment.values()).map(columns => {
+    const years = [...columns]
+      .sort((a, b) => a.year - b.year)
+      .map(column => {
+        const ranks = rankByPremium(products, p => getProductPrice(p, column.column));
+        const premium = getProductPrice(product, column.column);
+        return {
+          year: column.year,
+          premium: premium > 0 ? premium : null,
+          rank: ranks.get(productId) ?? null,
+          segmentSize: ranks.size,
+        };
+      });
+
+    return {
+      state: columns[0].state,
+      gender: columns[0].gender,
+      ageBand: columns[0].ageBand,
+      years,
+      ...summariseSegment(years),
+    };
+  });
+
+  return {
+    productId,
+    name: product.NAME,
+    years: priceMatrix.years,
+    segments,
+  };
+};
+
+// Trend for every product priced by the lookup, against the previous year of the same segment(s).
+// Products without a quote in both years get no entry.
+export const getSegmentPriceTrends = (
+  products: InsuranceProduct[],
+  priceMatrix: PriceMatrix,
+  priceLookup: PriceLookup
+): Map<string, PriceTrend> => {
+  const trends = new Map<string, PriceTrend>();
+  const currentColumns = getLookupColumns(priceLookup).map(name => priceMatrix.columns.find(column => column.column === name));
+  if (currentColumns.length === 0 || currentColumns.some(column => column === undefined)) {
+    return trends;
+  }
+
+  // All columns of a lookup share a year; find the latest earlier year that has every segment
+  const currentYear = currentColumns[0]!.year;
+  const findSegmentColumn = (current: PriceColumn, year: number) =>
+    priceMatrix.columns.find(column => column.year === year && segmentKey(column) === segmentKey(current));
+  const previousYear = [...priceMatrix.years]
+    .reverse()
+    .find(year => year < currentYear && currentColumns.every(current => findSegmentColumn(current!, year)));
+  if (previousYear === undefined) {
+    return trends;
+  }
+
+  // Same columns and weights, one year earlier
+  const previousLookup: PriceLookup = {
+    ...priceLookup,
+    sources: priceLookup.sources.map(source => source.map(entry => ({
+      ...entry,
+      column: findSegmentColumn(parsePriceColumn(entry.column)!, previousYear)!.column,
+    }))),
+  };
+
+  const currentRanks = rankByPremium(products, product => getLookupPrice(product, priceLookup));
+  const previousRanks = rankByPremium(products, product => getLookupPrice(product, previousLookup));
+
+  products.forEach(product => {
+    const currentRank = currentRanks.get(product.ID);
+    const previousRank = previousRanks.get(product.ID);
+    if (currentRank === undefined || previousRank === undefined) {
+      return;
+    }
+    trends.set(product.ID, {
+      previousYear,
+      changePercent: getPercentChange(getLookupPrice(product, previousLookup), getLookupPrice(product, priceLookup)),
+      rankChange: previousRank - currentRank,
+    });
+  });
+
+  return trends;
+};
@@ -0,0 +1,291 @@
+import { InsuranceProduct, AustralianState, Gender, AgeGroup, OtherGenderPricing } from '../types';
+
+// Price columns are discovered from the CSV header rather than hardcoded, e.g.
+//   2025-AUFCI-NSW-F-30  →  year 2025, NSW, female, age band 30
+// so a new year (or extra age bands) only needs new columns, and years can coexist.
+
+export const PRICE_COLUMN_PATTERN = /^(\d{4})-AUFCI-([A-Z]{2,3})-([MF])-(\d{2})$/;
+
+export type GenderCode = 'M' | 'F';
+
+export interface PriceColumn {
+  column: string;
+  year: number;
+  state: string;
+  gender: GenderCode;
+  ageBand: number;
+}
+
+export interface PriceMatrix {
+  columns: PriceColumn[];
+  years: number[]; // Ascending
+  latestYear: number | null;
+}
+
+// Age band (column suffix) used for each quiz age group
+export const AGE_GROUP_BANDS: Record<AgeGroup, number> = {
+  '< 25 years': 20,
+  '< 35 years': 30,
+  '< 65 years': 60,
+};
+
+export type PricedGender = Exclude<Gender, 'Other'>;
+
+export const GENDER_CODES: Record<PricedGender, GenderCode> = {
+  'Male': 'M',
+  'Female': 'F',
+};
+
+// One gender's premium: a single column, or two adjacent age-band columns weighted for an exact age
+export type PriceSource = { column: string; weight: number }[];
+
+type PriceSourceResult = { ok: true; source: PriceSource } | { ok: false; error: string };
+
+// Price columns that describe a quiz profile's premium and how to combine them.
+// 'Other' has no columns of its own, so it reads both genders and blends them per the scoring profile.
+export interface PriceLookup {
+  sources: PriceSource[]; // One per gender priced
+  blend: OtherGenderPricing | null; // null = single source, used as is
+}
+
+// error names the missing state / gender / age combination
+export type PriceLookupResult = { ok: true; lookup: PriceLookup } | { ok: false; error: string };
+
+// Exact ages are priced from the age-band columns. Below the lowest band we reuse it down to the
+// youngest insurable age; above the top band we reuse it for a few years (the -60 column covers
+// up to 64, as the '< 65 years' group always did). Anything else has no data.
+export const MIN_QUOTE_AGE = 17;
+const TOP_BAND_SPAN_YEARS = 4;
+
+export interface AgeCoverage {
+  minAge: number;
+  maxAge: number;
+  bands: number[]; // Ascending
+}
+
+// Plain-English basis for 'Other' premiums, shown in the results
+export const OTHER_GENDER_PRICING_DESCRIPTIONS: Record<OtherGenderPricing, string> = {
+  midpoint: 'the average of male and female premiums',
+  lower: 'the lower of male and female premiums',
+  upper: 'the higher of male and female premiums',
+  female: 'female premiums',
+};
+
+// Gender codes whose columns a quiz gender draws on
+export const getGenderCodes = (gender: Gender): GenderCode[] =>
+  gender === 'Other' ? ['M', 'F'] : [GENDER_CODES[gender]];
+
+export const parsePriceColumn = (column: string): PriceColumn | null => {
+  const match = column.match(PRICE_COLUMN_PATTERN);
+  if (!match) {
+    return null;
+  }
+  return {
+    column,
+    year: parseInt(match[1], 10),
+    state: match[2],
+    gender: match[3] as GenderCode,
+    ageBand: parseInt(match[4], 10),
+  };
+};
+
+export const buildPriceMatrix = (columnNames: string[]): PriceMatrix => {
+  const columns = columnNames
+    .map(parsePriceColumn)
+    .filter((column): column is PriceColumn => column !== null);
+  const years = Array.from(new Set(columns.map(column => column.year))).sort((a, b) => a - b);
+
+  return {
+    columns,
+    years,
+    latestYear: years.length > 0 ? years[years.length - 1] : null,
+  };
+};
+
+// Products parsed with a CSV header all share the same keys, but take the union to be safe
+export const buildPriceMatrixFromProducts = (products: InsuranceProduct[]): PriceMatrix => {
+  const columnNames = new Set<string>();
+  products.forEach(product => Object.keys(product).forEach(key => columnNames.add(key)));
+  return buildPriceMatrix(Array.from(columnNames));
+};
+
+// Find the price column for a quiz profile, defaulting to the latest year in the data
+const getAgeGroupSource = (
+  matrix: PriceMatrix,
+  state: AustralianState,
+  gender: PricedGender,
+  ageGroup: AgeGroup,
+  year: number | null = matrix.latestYear
+): PriceSourceResult => {
+  const genderCode = GENDER_CODES[gender];
+  const ageBand = AGE_GROUP_BANDS[ageGroup];
+  const match = matrix.columns.find(column =>
+    column.year === year
+    && column.state === state
+    && column.gender === genderCode
+    && column.ageBand === ageBand
+  );
+
+  if (!match) {
+    return {
+      ok: false,
+      error: `No price column for year ${year ?? '(none)'}, ${state}, ${gender} (${genderCode}), age band ${ageBand}. `
+        + `Years in dataset: ${matrix.years.join(', ') || 'none'}`,
+    };
+  }
+  return { ok: true, source: [{ column: match.column, weight: 1 }] };
+};
+
+// Ages that can be priced for a state (and gender), or null when it has no price columns that year
+export const getAgeCoverage = (
+  matrix: PriceMatrix,
+  state: AustralianState,
+  gender: PricedGender | null = null,
+  year: number | null = matrix.latestYear
+): AgeCoverage | null => {
+  const bands = Array.from(new Set(
+    matrix.columns
+      .filter(column => column.year === year && column.state === state && (!gender || column.gender === GENDER_CODES[gender]))
+      .map(column => column.ageBand)
+  )).sort((a, b) => a - b);
+
+  if (bands.length === 0) {
+    return null;
+  }
+  return {
+    minAge: Math.min(MIN_QUOTE_AGE, bands[0]),
+    maxAge: bands[bands.length - 1] + TOP_BAND_SPAN_YEARS,
+    bands,
+  };
+};
+
+// Weighted columns for an exact age: the band column on or beyond the outer bands,
+// otherwise linear interpolation between the two bands either side.
+const getExactAgeSource = (
+  matrix: PriceMatrix,
+  state: AustralianState,
+  gender: PricedGender,
+  age: number,
+  year: number | null
+): PriceSourceResult => {
+  const coverage = getAgeCoverage(matrix, state, gender, year);
+  if (!coverage || age < coverage.minAge || age > coverage.maxAge) {
+    return {
+      ok: false,
+      error: `No premium data for age ${age} in ${state} for ${gender}`
+        + (coverage ? ` (covered ages: ${coverage.minAge}-${coverage.maxAge})` : ''),
+    };
+  }
+
+  const column = (band: number) => matrix.columns.find(c =>
+    c.year === year && c.state === state && c.gender === GENDER_CODES[gender] && c.ageBand === band
+  )!.column;
+
+  const { bands } = coverage;
+  const upperIndex = bands.findIndex(band => band >= age);
+  if (upperIndex === -1) {
+    return { ok: true, source: [{ column: column(bands[bands.length - 1]), weight: 1 }] };
+  }
+  if (upperIndex === 0 || bands[upperIndex] === age) {
+    return { ok: true, source: [{ column: column(bands[upperIndex]), weight: 1 }] };
+  }
+
+  const lower = bands[upperIndex - 1];
+  const upper = bands[upperIndex];
+  const upperWeight = (age - lower) / (upper - lower);
+  return {
+    ok: true,
+    source: [
+      { column: column(lower), weight: 1 - upperWeight },
+      { column: column(upper), weight: upperWeight },
+    ],
+  };
+};
+
+// Price columns for a quiz profile, by age group or exact age. Fails when the data has no
+// column for the combination or no data for the age.
+export const findPriceLookup = (
+  matrix: PriceMatrix,
+  state: AustralianState,
+  gender: Gender,
+  age: AgeGroup | number,
+  year: number | null,
+  otherGenderPricing: OtherGenderPricing
+): PriceLookupResult => {
+  const pricedGenders: PricedGender[] = gender !== 'Other'
+    ? [gender]
+    : otherGenderPricing === 'female' ? ['Female'] : ['Male', 'Female'];
+
+  const sources: PriceSource[] = [];
+  for (const pricedGender of pricedGenders) {
+    const result = typeof age === 'number'
+      ? getExactAgeSource(matrix, state, pricedGender, age, year)
+      : getAgeGroupSource(matrix, state, pricedGender, age, year);
+    if (!result.ok) {
+      return result;
+    }
+    sources.push(result.source);
+  }
+  return { ok: true, lookup: { sources, blend: sources.length > 1 ? otherGenderPricing : null } };
+};
+
+// As findPriceLookup, but throws when the profile can't be priced
+export const getPriceLookup = (...args: Parameters<typeof findPriceLookup>): PriceLookup => {
+  const result = findPriceLookup(...args);
+  if (!result.ok) {
+    throw new Error(result.error);
+  }
+  return result.lookup;
+};
+
+// Every column a lookup reads
+export const getLookupColumns = (lookup: PriceLookup): string[] =>
+  lookup.sources.flatMap(source => source.map(entry => entry.column));
+
+// Price from a price column; 0 when the cell is blank or not a number (e.g. "N/A")
+export const getProductPrice = (product: InsuranceProduct, priceColumn: string): number =>
+  parseFloat(product[priceColumn]) || 0;
+
+// Premium from one source; 0 unless every column it interpolates between has a quote
+const getSourcePrice = (product: InsuranceProduct, source: PriceSource): number => {
+  const prices = source.map(entry => getProductPrice(product, entry.column));
+  if (prices.some(price => price <= 0)) {
+    return 0;
+  }
+  if (source.length === 1) {
+    return prices[0];
+  }
+  return Math.round(source.reduce((sum, entry, index) => sum + prices[index] * entry.weight, 0) * 100) / 100;
+};
+
+// Premium for a lookup. When only one of the blended sources has a quote, that quote is used.
+export const getLookupPrice = (product: InsuranceProduct, lookup: PriceLookup): number => {
+  const prices = lookup.sources
+    .map(source => getSourcePrice(product, source))
+    .filter(price => price > 0);
+  if (prices.length === 0) {
+    return 0;
+  }
+
+  switch (lookup.blend) {
+    case 'lower':
+      return Math.min(...prices);
+    case 'upper':
+      return Math.max(...prices);
+    case 'midpoint':
+      return Math.round((prices.reduce((sum, price) => sum + price, 0) / prices.length) * 100) / 100;
+    default:
+      return prices[0];
+  }
+};
+
+// Lowest and highest quote behind a blended premium; null for single-source lookups
+export const getLookupPriceRange = (product: InsuranceProduct, lookup: PriceLookup): { low: number; high: number } | null => {
+  if (lookup.sources.length < 2) {
+    return null;
+  }
+  const prices = lookup.sources
+    .map(source => getSourcePrice(product, source))
+    .filter(price => price > 0);
+  return prices.length > 0 ? { low: Math.min(...prices), high: Math.max(...prices) } : null;
+};
@@ -0,0 +1,66 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { InsuranceProduct, RatedProduct } from '../types';
+import { parseInsuranceCsv } from './csvLoader';
+import { buildComparisonRows, ComparisonRow } from './productComparison';
+import { getProductFeatureCoverage, getProductFeatures } from './scoring';
+
+// A row of the bundled data with some columns changed
+const BASE_ROW = parseInsuranceCsv(readFileSync(path.join(process.cwd(), 'public', 'insurance-data.csv'), 'utf-8')).products[0];
+
+// Only the fields the comparison rows read
+const product = (columns: Record<string, string>): RatedProduct => {
+  const row: InsuranceProduct = { ...BASE_ROW, ...columns };
+  const featureCoverage = getProductFeatureCoverage(row);
+  return { features: getProductFeatures(row, featureCoverage), featureCoverage } as RatedProduct;
+};
+
+const rowFor = (rows: ComparisonRow[], field: ComparisonRow['field']) => rows.find(row => row.field === field)!;
+
+describe('buildComparisonRows', () => {
+  it('gives every feature field a row, with one value per product', () => {
+    const rows = buildComparisonRows([product({}), product({})]);
+
+    expect(rows.length).toBe(Object.keys(product({}).features).length);
+    expect(rows.every(row => row.values.length === 2 && row.identical)).toBe(true);
+  });
+
+  it('shows the cover level of catalogue features, telling optional add-ons apart from no cover', () => {
+    const rows = buildComparisonRows([product({ STORM: 'Yes' }), product({ STORM: 'Optional' }), product({ STORM: 'No' })]);
+
+    expect(rowFor(rows, 'storm')).toMatchObject({ values: ['Included', 'Optional add-on', 'Not covered'], identical: false });
+  });
+
+  it.each([
+    ['Yes', '0', 'Included'],
+    ['Yes', '99', 'Included'],
+    ['Optional', '99', 'Paid add-on'],
+    ['Optional', '', 'Optional add-on, cost not stated'],
+    ['No', '99', 'Paid add-on'],
+    ['No', '', 'Not offered'],
+  ])('shows roadside assistance %s costing "%s" as %s', (cover, cost, label) => {
+    const rows = buildComparisonRows([product({ ROADSIDE_ASSISTANCE: cover, ROADSIDE_ASSISTANCE_COST: cost })]);
+
+    expect(rowFor(rows, 'roadsideAssistanceCost').values).toEqual([label]);
+  });
+
+  it('formats personal effects limits and the restricted driver flag', () => {
+    const rows = buildComparisonRows([
+      product({ PERSONAL_EFFECTS: '1000', RESTRICTED_DRIVER_OPTION: 'TRUE' }),
+      product({ PERSONAL_EFFECTS: '0', RESTRICTED_DRIVER_OPTION: '' }),
+    ]);
+
+    expect(rowFor(rows, 'personalEffects').values).toEqual(['Up to $1,000', 'No']);
+    expect(rowFor(rows, 'restrictedDriverOption').values).toEqual(['Yes', 'Not stated']);
+  });
+
+  it('treats values differing only in case and spacing as identical', () => {
+    const rows = buildComparisonRows([
+      product({ HIRE_CAR_AFTER_ACCIDENT: 'Yes - up to 14 days' }),
+      product({ HIRE_CAR_AFTER_ACCIDENT: 'yes -  Up to 14 days' }),
+    ]);
+
+    expect(rowFor(rows, 'hireCarAfterAccident').identical).toBe(true);
+  });
+});
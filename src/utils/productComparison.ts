@@ -0,0 +1,115 @@
+import { CoverageLevel, ProcessedInsuranceProduct, RatedProduct, SelectedFeature } from '../types';
+
+// Side-by-side comparison of the products a user picks from the results (the comparison tray):
+// one row per field of ProcessedInsuranceProduct.features, flagging rows where the products differ.
+// Fields backed by a catalogue feature show its cover level from featureCoverage.
+
+export const MAX_COMPARED_PRODUCTS = 4;
+
+type ProductFeatures = ProcessedInsuranceProduct['features'];
+export type ProductFeatureField = keyof ProductFeatures;
+
+// Row labels, in display order. Typed as a Record so every feature field gets a row.
+const FEATURE_FIELD_LABELS: Record<ProductFeatureField, string> = {
+  agreedOrMarketValue: 'Agreed or Market Value',
+  accidentalDamage: 'Accidental Damage',
+  storm: 'Storm',
+  windscreen: 'Windscreen',
+  noExcessWindscreen: 'No Excess Windscreen',
+  reducedExcessWindscreen: 'Reduced Excess Windscreen',
+  newCarReplacement: 'New Car Replacement',
+  newCarReplacementDetails: 'New Car Replacement Details',
+  choiceOfRepairer: 'Choice of Repairer',
+  lifetimeGuarantee: 'Lifetime Repair Guarantee',
+  hireCarAfterAccident: 'Hire Car After Accident',
+  personalEffects: 'Personal Effects',
+  personalEffectsDetails: 'Personal Effects Details',
+  keyReplacement: 'Key Replacement',
+  keyReplacementDetails: 'Key Replacement Details',
+  childSeatReplacement: 'Child Seat Replacement',
+  childSeatDetails: 'Child Seat Details',
+  emergencyTransport: 'Emergency Transport',
+  emergencyTransportDetails: 'Emergency Transport Details',
+  essentialRepairs: 'Essential Repairs',
+  essentialRepairsDetails: 'Essential Repairs Details',
+  roadsideAssistance: 'Roadside Assistance',
+  roadsideAssistanceCost: 'Roadside Assistance Cost',
+  towing: 'Towing',
+  restrictedDriverOption: 'Restricted Driver Option',
+  payMonthly: 'Pay Monthly',
+};
+
+export interface ComparisonRow {
+  field: ProductFeatureField;
+  label: string;
+  values: string[]; // One per compared product, in tray order
+  identical: boolean;
+}
+
+// Feature fields whose flag collapses a catalogue feature's cover level (optional reads as false)
+const FEATURE_FIELD_COVERAGE: Partial<Record<ProductFeatureField, SelectedFeature>> = {
+  accidentalDamage: 'ACCIDENTAL_DAMAGE',
+  storm: 'STORM',
+  windscreen: 'WINDSCREEN',
+  newCarReplacement: 'NEW_CAR_REPLACEMENT',
+  choiceOfRepairer: 'CHOICE_OF_REPAIRER',
+  lifetimeGuarantee: 'LIFETIME_GUARANTEE',
+  childSeatReplacement: 'CHILD_SEAT',
+  emergencyTransport: 'EMERGENCY_TRANSPORT',
+  roadsideAssistance: 'ROADSIDE_ASSISTANCE',
+  towing: 'TOWING',
+};
+
+const COVERAGE_LABELS: Record<CoverageLevel, string> = {
+  included: 'Included',
+  optional: 'Optional add-on',
+  notCovered: 'Not covered',
+};
+
+const NOT_STATED = 'Not stated';
+
+const formatFeatureValue = (field: ProductFeatureField, product: RatedProduct): string => {
+  const coverageFeature = FEATURE_FIELD_COVERAGE[field];
+  if (coverageFeature) {
+    return COVERAGE_LABELS[product.featureCoverage[coverageFeature]];
+  }
+
+  const value = product.features[field];
+  if (typeof value === 'boolean') {
+    return value ? 'Yes' : 'No';
+  }
+
+  const text = value.trim();
+  switch (field) {
+    case 'personalEffects':
+      // Cover limit in dollars, 0 = not covered
+      return /^\d+$/.test(text) ? (text === '0' ? 'No' : `Up to $${Number(text).toLocaleString('en-AU')}`) : text || NOT_STATED;
+    case 'roadsideAssistanceCost':
+      // A price, so only whether it costs extra is shown; the cover level wins over any listed cost
+      switch (product.featureCoverage.ROADSIDE_ASSISTANCE) {
+        case 'included':
+          return 'Included';
+        case 'optional':
+          return Number(text) > 0 ? 'Paid add-on' : 'Optional add-on, cost not stated';
+        default:
+          return Number(text) > 0 ? 'Paid add-on' : 'Not offered';
+      }
+    case 'restrictedDriverOption':
+      return text === 'TRUE' ? 'Yes' : text === 'FALSE' ? 'No' : NOT_STATED;
+    default:
+      return text || NOT_STATED;
+  }
+};
+
+const normaliseValue = (value: string): string => value.replace(/\s+/g, ' ').toLowerCase();
+
+export const buildComparisonRows = (products: RatedProduct[]): ComparisonRow[] =>
+  (Object.keys(FEATURE_FIELD_LABELS) as ProductFeatureField[]).map(field => {
+    const values = products.map(product => formatFeatureValue(field, product));
+    return {
+      field,
+      label: FEATURE_FIELD_LABELS[field],
+      values,
+      identical: values.every(value => normaliseValue(value) === normaliseValue(values[0])),
+    };
+  });
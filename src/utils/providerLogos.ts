@@ -0,0 +1,20 @@
+import { ProviderLogoUrls } from '../../server/types/api';
+
+// Provider logo URLs from provider-logos.json, which the Vite build generates from the files in
+// public/logos. When it can't be loaded, products show their initials instead.
+
+const PROVIDER_LOGOS_URL = '/provider-logos.json';
+
+// Logo URL per provider id; empty when the manifest can't be loaded
+export const loadProviderLogoUrls = async (): Promise<ProviderLogoUrls> => {
+  try {
+    const response = await fetch(PROVIDER_LOGOS_URL);
+    if (!response.ok) {
+      throw new Error(`Provider logo request failed with status ${response.status}`);
+    }
+    return await response.json();
+  } catch (error) {
+    console.error('Error loading provider logos:', error);
+    return {};
+  }
+};
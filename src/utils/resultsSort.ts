@@ -0,0 +1,36 @@
+import { RatedProduct, ResultsSort, ResultsSortColumn } from '../types';
+
+// The order the quiz shows its results in. The ranking engine orders them by price rating or
+// Finder Score; the results table puts sponsored products first unless the user sorts by a column.
+
+export const DEFAULT_RESULTS_SORT: ResultsSort = { column: null, direction: 'desc' };
+
+const SPONSORED_PRODUCTS = [
+  'Coles Comprehensive',
+  'Qantas Comprehensive',
+  'Bingle Comprehensive',
+  'Huddle Comprehensive',
+  'Kogan Comprehensive',
+];
+
+export const isSponsoredProduct = (productName: string): boolean => SPONSORED_PRODUCTS.includes(productName);
+
+const SORT_VALUES: Record<ResultsSortColumn, (product: RatedProduct) => number> = {
+  priceRating: product => product.priceRating,
+  annualCostRating: product => product.annualCostRating,
+  monthlyEquivalentRating: product => product.monthlyEquivalentRating ?? 0,
+  featureScore: product => product.averageFeatureScore,
+  dynamicFinderScore: product => product.dynamicFinderScore,
+};
+
+export const sortResults = <T extends RatedProduct>(products: T[], { column, direction }: ResultsSort): T[] => {
+  if (!column) {
+    // Default order: sponsored products first, then by Dynamic Finder Score
+    return [...products].sort((a, b) =>
+      Number(isSponsoredProduct(b.name)) - Number(isSponsoredProduct(a.name)) || b.dynamicFinderScore - a.dynamicFinderScore
+    );
+  }
+
+  const getValue = SORT_VALUES[column];
+  return [...products].sort((a, b) => direction === 'asc' ? getValue(a) - getValue(b) : getValue(b) - getValue(a));
+};
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { ProcessedInsuranceProduct, ResultsSort, SavedComparison } from '../types';
+import { DEFAULT_RESULTS_SORT } from './resultsSort';
+import { getSavedComparisonChanges, snapshotProducts } from './savedComparisons';
+
+// Only the fields a snapshot and the results order read
+const product = (id: string, name: string, priceRating: number, dynamicFinderScore: number): ProcessedInsuranceProduct => ({
+  id,
+  name,
+  priceRating,
+  annualCostRating: 5,
+  monthlyEquivalentRating: null,
+  averageFeatureScore: 6,
+  dynamicFinderScore,
+} as ProcessedInsuranceProduct);
+
+// In ranking engine order (price rating); Coles is sponsored
+const PRODUCTS = [
+  product('a', 'Budget Direct Comprehensive', 9.5, 7.0),
+  product('b', 'Coles Comprehensive', 8.0, 6.0),
+  product('c', 'NRMA Comprehensive', 6.0, 8.0),
+];
+
+const BY_PRICE_ASC: ResultsSort = { column: 'priceRating', direction: 'asc' };
+
+const savedComparison = (products: ProcessedInsuranceProduct[], sort: ResultsSort, datasetVersion: string | null = 'v1'): SavedComparison => ({
+  id: 'saved',
+  name: 'NSW, 25-34, Female - Price',
+  savedAt: '2026-01-01T00:00:00.000Z',
+  quizData: {} as SavedComparison['quizData'],
+  datasetVersion,
+  sort,
+  products: snapshotProducts(products, sort),
+});
+
+const ranks = (comparison: SavedComparison) => comparison.products.map(({ id, rank }) => [id, rank]);
+
+describe('snapshotProducts', () => {
+  it('ranks products as the table shows them by default: sponsored first, then by Dynamic Finder Score', () => {
+    expect(ranks(savedComparison(PRODUCTS, DEFAULT_RESULTS_SORT))).toEqual([['b', 1], ['c', 2], ['a', 3]]);
+  });
+
+  it('ranks products in the active sort', () => {
+    expect(ranks(savedComparison(PRODUCTS, BY_PRICE_ASC))).toEqual([['c', 1], ['b', 2], ['a', 3]]);
+  });
+});
+
+describe('getSavedComparisonChanges', () => {
+  it('reports nothing when the results are unchanged', () => {
+    expect(getSavedComparisonChanges(savedComparison(PRODUCTS, DEFAULT_RESULTS_SORT), PRODUCTS, 'v1')).toEqual({
+      datasetChanged: false,
+      added: [],
+      removed: [],
+      rankChanges: [],
+      ratingChanges: [],
+    });
+  });
+
+  it('lists added and removed products', () => {
+    const current = [...PRODUCTS.slice(1), product('d', 'AAMI Comprehensive', 7.0, 5.0)];
+    const changes = getSavedComparisonChanges(savedComparison(PRODUCTS, DEFAULT_RESULTS_SORT), current, 'v2');
+
+    expect(changes.datasetChanged).toBe(true);
+    expect(changes.added.map(({ id }) => id)).toEqual(['d']);
+    expect(changes.removed.map(({ id }) => id)).toEqual(['a']);
+  });
+
+  it('compares ranks in the sort the comparison was saved with', () => {
+    const saved = savedComparison(PRODUCTS, BY_PRICE_ASC);
+    const current = [PRODUCTS[0], PRODUCTS[1], product('c', 'NRMA Comprehensive', 8.5, 8.0)];
+    const changes = getSavedComparisonChanges(saved, current, 'v1');
+
+    // NRMA's price rating now puts it after Coles: #1 → #2, and Coles #2 → #1
+    expect(changes.rankChanges.map(({ product: { id, rank }, previousRank }) => [id, previousRank, rank])).toEqual([
+      ['b', 2, 1],
+      ['c', 1, 2],
+    ]);
+  });
+
+  it('ignores rating movements that round to the same displayed value', () => {
+    const saved = savedComparison(PRODUCTS, DEFAULT_RESULTS_SORT);
+    const current = [product('a', 'Budget Direct Comprehensive', 9.52, 7.0), product('b', 'Coles Comprehensive', 7.4, 6.0), PRODUCTS[2]];
+    const changes = getSavedComparisonChanges(saved, current, 'v1');
+
+    expect(changes.ratingChanges.map(({ product: { id }, rating, previous }) => [id, rating, previous])).toEqual([
+      ['b', 'priceRating', 8.0],
+    ]);
+  });
+
+  it('cannot tell whether the dataset changed without both versions', () => {
+    expect(getSavedComparisonChanges(savedComparison(PRODUCTS, DEFAULT_RESULTS_SORT, null), PRODUCTS, 'v1').datasetChanged).toBeNull();
+  });
+});
@@ -0,0 +1,139 @@
+import { QuizData, RatedProduct, ResultsSort, SavedComparison, SavedComparisonChanges, SavedProductRating, SavedProductSnapshot } from '../types';
+import { DEFAULT_RESULTS_SORT, sortResults } from './resultsSort';
+
+// Comparisons saved in the browser's localStorage, newest first, so returning users can reopen
+// them without redoing the quiz and see how the results have moved since.
+
+const STORAGE_KEY = 'savedComparisons.v1';
+const MAX_SAVED_COMPARISONS = 20;
+
+const SNAPSHOT_RATINGS: SavedProductRating[] = ['dynamicFinderScore', 'priceRating', 'annualCostRating', 'monthlyEquivalentRating', 'averageFeatureScore'];
+
+export const SAVED_RATING_LABELS: Record<SavedProductRating, string> = {
+  dynamicFinderScore: 'Dynamic Finder Score',
+  priceRating: 'Price Rating',
+  annualCostRating: 'Estimated Annual Cost Rating',
+  monthlyEquivalentRating: 'Monthly Equivalent Rating',
+  averageFeatureScore: 'Feature Score',
+};
+
+const getStorage = (): Storage | null => {
+  try {
+    return typeof window !== 'undefined' ? window.localStorage : null;
+  } catch {
+    return null; // Storage blocked, e.g. by privacy settings
+  }
+};
+
+export const loadSavedComparisons = (): SavedComparison[] => {
+  try {
+    const saved = JSON.parse(getStorage()?.getItem(STORAGE_KEY) ?? '[]');
+    // Comparisons saved before the sort was kept are read with the default one
+    return Array.isArray(saved) ? saved.map(comparison => ({ sort: DEFAULT_RESULTS_SORT, ...comparison })) : [];
+  } catch (error) {
+    console.error('Error reading saved comparisons:', error);
+    return [];
+  }
+};
+
+const storeSavedComparisons = (comparisons: SavedComparison[]): SavedComparison[] => {
+  const storage = getStorage();
+  if (!storage) {
+    throw new Error('Saving comparisons needs browser storage, which is turned off');
+  }
+  try {
+    storage.setItem(STORAGE_KEY, JSON.stringify(comparisons));
+  } catch {
+    throw new Error('Browser storage is full; delete a saved comparison and try again');
+  }
+  return comparisons;
+};
+
+// Ranked results as stored: ratings only, ranked in the order the table shows them with this sort
+export const snapshotProducts = (products: RatedProduct[], sort: ResultsSort): SavedProductSnapshot[] =>
+  sortResults(products, sort).map((product, index) => ({
+    id: product.id,
+    name: product.name,
+    rank: index + 1,
+    priceRating: product.priceRating,
+    annualCostRating: product.annualCostRating,
+    monthlyEquivalentRating: product.monthlyEquivalentRating,
+    averageFeatureScore: product.averageFeatureScore,
+    dynamicFinderScore: product.dynamicFinderScore,
+  }));
+
+// Default name, e.g. "NSW, age 34, Male - Features"
+export const getDefaultComparisonName = (quizData: QuizData): string =>
+  `${quizData.postcode ? `${quizData.postcode} ${quizData.state}` : quizData.state}, ${quizData.age !== null ? `age ${quizData.age}` : quizData.ageGroup}, ${quizData.gender} - ${quizData.priority}`;
+
+// Save new results; the oldest saved comparisons are dropped beyond MAX_SAVED_COMPARISONS
+export const saveComparison = (
+  quizData: QuizData,
+  products: RatedProduct[],
+  datasetVersion: string | null,
+  sort: ResultsSort
+): SavedComparison[] => {
+  const comparison: SavedComparison = {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    name: getDefaultComparisonName(quizData),
+    savedAt: new Date().toISOString(),
+    quizData,
+    datasetVersion,
+    sort,
+    products: snapshotProducts(products, sort),
+  };
+  return storeSavedComparisons([comparison, ...loadSavedComparisons()].slice(0, MAX_SAVED_COMPARISONS));
+};
+
+export const renameSavedComparison = (id: string, name: string): SavedComparison[] => {
+  if (!name.trim()) {
+    throw new Error('Enter a name for the saved comparison');
+  }
+  return storeSavedComparisons(loadSavedComparisons().map(comparison =>
+    comparison.id === id ? { ...comparison, name: name.trim() } : comparison
+  ));
+};
+
+export const deleteSavedComparison = (id: string): SavedComparison[] =>
+  storeSavedComparisons(loadSavedComparisons().filter(comparison => comparison.id !== id));
+
+// Ratings are shown to 1 decimal place, so smaller movements don't count as changes
+const roundRating = (rating: number): number => Math.round(rating * 10) / 10;
+
+// Compare a saved comparison with the same quiz answers ranked today, in the sort it was saved with
+export const getSavedComparisonChanges = (
+  saved: SavedComparison,
+  products: RatedProduct[],
+  datasetVersion: string | null
+): SavedComparisonChanges => {
+  const current = snapshotProducts(products, saved.sort);
+  const savedById = new Map(saved.products.map(product => [product.id, product]));
+  const currentIds = new Set(current.map(product => product.id));
+
+  const changes: SavedComparisonChanges = {
+    datasetChanged: saved.datasetVersion && datasetVersion ? saved.datasetVersion !== datasetVersion : null,
+    added: current.filter(product => !savedById.has(product.id)),
+    removed: saved.products.filter(product => !currentIds.has(product.id)),
+    rankChanges: [],
+    ratingChanges: [],
+  };
+
+  current.forEach(product => {
+    const previous = savedById.get(product.id);
+    if (!previous) {
+      return;
+    }
+    if (previous.rank !== product.rank) {
+      changes.rankChanges.push({ product, previousRank: previous.rank });
+    }
+    SNAPSHOT_RATINGS.forEach(rating => {
+      const before = previous[rating];
+      const after = product[rating];
+      if (before !== null && after !== null && roundRating(before) !== roundRating(after)) {
+        changes.ratingChanges.push({ product, rating, previous: before });
+      }
+    });
+  });
+
+  return changes;
+};
@@ -0,0 +1,459 @@
+import { InsuranceProduct, ProcessedInsuranceProduct, PriceTrend, AustralianState, Gender, AgeGroup, Priority, SelectedFeature, ScoringProfile, CoverageLevel, RankingOptions, QuizData, OtherGenderPricing } from '../types';
+import { DEFAULT_SCORING_PROFILE } from './scoringProfile';
+import { parseBenefitDetails } from './benefitParser';
+import { FEATURE_CATALOGUE, FeatureDefinition, getFeatureAmount, getFeatureCoverage, getScoredFeatures } from './featureCatalogue';
+import { PriceLookup, PriceMatrix, buildPriceMatrixFromProducts, getPriceLookup, getLookupPrice, getLookupPriceRange } from './priceMatrix';
+import { getSegmentPriceTrends } from './priceHistory';
+import { getValueBasisRecommendation, getVehicleAge, isNewCarReplacementEligible, offersValueBasis } from './vehicle';
+import { getUsageBasedPricing, getUsageFit } from './usage';
+import { estimateAnnualCost } from './totalCost';
+import { estimateMonthlyPayment } from './payment';
+
+// Shared scoring engine. Both the browser quiz and the Express API rank products
+// through these functions so that a profile always produces the same ordering.
+
+// Convert actual prices to a rating scale from 1.0 to 9.9
+// Lower prices get higher ratings (inverse relationship)
+export const convertPriceToRating = (prices: number[]): Map<number, number> => {
+  const validPrices = prices.filter(price => price > 0);
+  if (validPrices.length === 0) return new Map();
+  
+  const minPrice = Math.min(...validPrices);
+  const maxPrice = Math.max(...validPrices);
+  const priceRange = maxPrice - minPrice;
+  
+  const ratingMap = new Map<number, number>();
+  
+  validPrices.forEach(price => {
+    // Normalize price to 0-1 range
+    const normalizedPrice = priceRange === 0 ? 0 : (price - minPrice) / priceRange;
+    
+    // Invert the scale (lower price = higher rating) and map to 1.0-9.9 range
+    const rating = 9.9 - (normalizedPrice * 8.9);
+    ratingMap.set(price, Math.round(rating * 10) / 10); // Round to 1 decimal place
+  });
+  
+  return ratingMap;
+};
+
+// Convert numeric values to a rating scale from 1.0 to 9.9
+// Higher numeric values get higher ratings (direct relationship)
+export const convertNumericToRating = (values: number[]): Map<number, number> => {
+  const validValues = values.filter(value => value > 0);
+  if (validValues.length === 0) return new Map();
+  
+  const minValue = Math.min(...validValues);
+  const maxValue = Math.max(...validValues);
+  const valueRange = maxValue - minValue;
+  
+  const ratingMap = new Map<number, number>();
+  
+  validValues.forEach(value => {
+    // Normalize value to 0-1 range
+    const normalizedValue = valueRange === 0 ? 1 : (value - minValue) / valueRange;
+    
+    // Map to 1.0-9.9 range (higher value = higher rating)
+    const rating = 1.0 + (normalizedValue * 8.9);
+    ratingMap.set(value, Math.round(rating * 10) / 10); // Round to 1 decimal place
+  });
+  
+  return ratingMap;
+};
+
+// Amount-based score lookup for numeric catalogue features, keyed by amount
+export type FeatureScoreMaps = Partial<Record<SelectedFeature, Map<number, number>>>;
+
+// Rating scales (keyed by amount) for the cost measures rated alongside the premium
+export interface CostRatingMaps {
+  annualCost?: Map<number, number>;
+  monthlyEquivalent?: Map<number, number>;
+}
+
+// Calculate feature sub-scores
+export const calculateFeatureScores = (products: InsuranceProduct[]): FeatureScoreMaps => {
+  const scoreMaps: FeatureScoreMaps = {};
+
+  // For numeric features (e.g. personal effects): rank 1.0 to 9.9 based on amount
+  FEATURE_CATALOGUE
+    .filter(feature => feature.kind === 'numeric')
+    .forEach(feature => {
+      const values = products
+        .map(product => getFeatureAmount(product, feature))
+        .filter(value => value > 0);
+
+      const scoreMap = convertNumericToRating(values);
+      // Add zero values
+      scoreMap.set(0, 0);
+      scoreMaps[feature.id] = scoreMap;
+    });
+
+  return scoreMaps;
+};
+
+// Score one feature for one product.
+// Boolean features score by cover level; numeric features score by amount (1.0-9.9), scaled
+// down by the optional / covered ratio when the cover is only a paid add-on.
+export const scoreFeature = (
+  product: InsuranceProduct,
+  feature: FeatureDefinition,
+  featureScoreMaps: FeatureScoreMaps,
+  scoringProfile: ScoringProfile = DEFAULT_SCORING_PROFILE
+): number => {
+  const { covered, optional, notCovered } = scoringProfile.booleanFeatureScores;
+  const coverage = getFeatureCoverage(product, feature);
+
+  if (feature.kind === 'boolean') {
+    return coverage === 'included' ? covered : coverage === 'optional' ? optional : notCovered;
+  }
+
+  if (coverage === 'notCovered') {
+    return notCovered;
+  }
+
+  // Cover we can't put a number on (e.g. "Reasonable costs") gets the lowest amount rating
+  const amount = getFeatureAmount(product, feature);
+  const amountScore = amount > 0 ? featureScoreMaps[feature.id]?.get(amount) || 0 : 1.0;
+  if (coverage === 'optional') {
+    return covered > 0 ? Math.round(amountScore * (optional / covered) * 10) / 10 : 0;
+  }
+  return amountScore;
+};
+
+// Calculate weighted feature score based on selected features
+export const calculateWeightedFeatureScore = (
+  featureScores: Record<SelectedFeature, number>,
+  selectedFeatures: SelectedFeature[],
+  scoringProfile: ScoringProfile = DEFAULT_SCORING_PROFILE
+): number => {
+  const scoredFeatures = getScoredFeatures(selectedFeatures);
+
+  // If no features selected, use equal weighting across the core features
+  if (selectedFeatures.length === 0) {
+    return scoredFeatures.reduce((sum, feature) => sum + featureScores[feature.id], 0) / scoredFeatures.length;
+  }
+
+  // Look up the weighting tier for the number of selected features.
+  // Without a tier, selected features share the weight equally.
+  const tier = scoringProfile.selectedFeatureWeights[String(selectedFeatures.length)]
+    ?? { selected: 1 / selectedFeatures.length, remaining: 0 };
+
+  const remainingCount = scoredFeatures.length - selectedFeatures.length;
+  const nonSelectedWeight = remainingCount > 0 ? tier.remaining / remainingCount : 0;
+
+  // Calculate weighted score
+  const weightedScore = scoredFeatures.reduce((sum, feature) => {
+    const weight = selectedFeatures.includes(feature.id) ? tier.selected : nonSelectedWeight;
+    return sum + featureScores[feature.id] * weight;
+  }, 0);
+
+  return Math.round(weightedScore * 10) / 10; // Round to 1 decimal place
+};
+
+// Calculate dynamic Finder Score based on user priority
+export const calculateDynamicFinderScore = (
+  priceRating: number,
+  averageFeatureScore: number,
+  userPriority: Priority,
+  scoringProfile: ScoringProfile = DEFAULT_SCORING_PROFILE
+): number => {
+  // e.g. Price priority: 85% Price Rating + 15% Feature Score
+  const { priceWeight, featureWeight } = scoringProfile.dynamicFinderScore[userPriority];
+  const dynamicScore = (priceRating * priceWeight) + (averageFeatureScore * featureWeight);
+
+  return Math.round(dynamicScore * 10) / 10; // Round to 1 decimal place
+};
+
+// Limits parsed from the free-text benefit columns (the same for every customer)
+export const getProductBenefits = (product: InsuranceProduct): ProcessedInsuranceProduct['benefits'] => ({
+  newCarReplacement: parseBenefitDetails(product.NEWCAR_REPLACEMENT_DETAILS || product.NEW_CAR_REPLACEMENT),
+  hireCar: parseBenefitDetails(product.HIRE_CAR_AFTER_ACCIDENT),
+  personalEffects: parseBenefitDetails(product.PERSONALEFFECTS_DETAILS),
+  keyReplacement: parseBenefitDetails(product.KEYREPLACEMENT_DETAILS || product.KEY_REPLACEMENT),
+  childSeat: parseBenefitDetails(product.CHILD_SEAT_BABY_CAPSULES_DETAILS),
+  emergencyTransport: parseBenefitDetails(product.EMERGENCY_TRANSPORT_ACCOMMODATION_DETAILS),
+  essentialRepairs: parseBenefitDetails(product.ESSENTIAL_EMERGENCY_REPAIR_DETAILS),
+});
+
+// Cover level of every catalogue feature as the CSV states it, before any vehicle eligibility check
+export const getProductFeatureCoverage = (product: InsuranceProduct): Record<SelectedFeature, CoverageLevel> =>
+  Object.fromEntries(FEATURE_CATALOGUE.map(feature => [feature.id, getFeatureCoverage(product, feature)])) as Record<SelectedFeature, CoverageLevel>;
+
+// Feature flags and details for display; the storm, windscreen, accidental damage and
+// new car replacement flags follow featureCoverage
+export const getProductFeatures = (
+  product: InsuranceProduct,
+  featureCoverage: Record<SelectedFeature, CoverageLevel>
+): ProcessedInsuranceProduct['features'] => ({
+  agreedOrMarketValue: product.AGREED_OR_MARKET_VALUE,
+  choiceOfRepairer: product.CHOICE_OF_REPAIRER.toLowerCase() === 'yes',
+  lifetimeGuarantee: product.LIFETIME_GUARANTEE_ON_REPAIRS.toLowerCase() === 'yes',
+  newCarReplacement: featureCoverage.NEW_CAR_REPLACEMENT === 'included',
+  newCarReplacementDetails: product.NEWCAR_REPLACEMENT_DETAILS || '',
+  personalEffects: product.PERSONAL_EFFECTS || '',
+  personalEffectsDetails: product.PERSONALEFFECTS_DETAILS || '',
+  roadsideAssistance: product.ROADSIDE_ASSISTANCE.toLowerCase() === 'yes',
+  roadsideAssistanceCost: product.ROADSIDE_ASSISTANCE_COST || '0',
+  storm: featureCoverage.STORM === 'included',
+  towing: product.TOWING.toLowerCase() === 'yes',
+  keyReplacement: product.KEY_REPLACEMENT || '',
+  keyReplacementDetails: product.KEYREPLACEMENT_DETAILS || '',
+  childSeatReplacement: product.CHILD_SEAT_BABY_CAPSULES.toLowerCase() === 'yes',
+  childSeatDetails: product.CHILD_SEAT_BABY_CAPSULES_DETAILS || '',
+  emergencyTransport: product.EMERGENCY_TRANSPORT_AND_ACCOMMODATION.toLowerCase() === 'yes',
+  emergencyTransportDetails: product.EMERGENCY_TRANSPORT_ACCOMMODATION_DETAILS || '',
+  essentialRepairs: product.ESSENTIAL_EMERGENCY_REPAIRS || '',
+  essentialRepairsDetails: product.ESSENTIAL_EMERGENCY_REPAIR_DETAILS || '',
+  hireCarAfterAccident: product.HIRE_CAR_AFTER_ACCIDENT || '',
+  restrictedDriverOption: product.RESTRICTED_DRIVER_OPTION || '',
+  noExcessWindscreen: product.NO_EXCESS_WINDSCREEN.toLowerCase() === 'yes',
+  windscreen: featureCoverage.WINDSCREEN === 'included',
+  payMonthly: product.PAY_MONTHLY_YES.toLowerCase() === 'yes',
+  reducedExcessWindscreen: product.REDUCED_EXCESS_WINDSCREEN || '',
+  accidentalDamage: featureCoverage.ACCIDENTAL_DAMAGE === 'included',
+});
+
+export const processInsuranceProduct = (
+  product: InsuranceProduct,
+  priceLookup: PriceLookup,
+  priceRatingMap: Map<number, number>,
+  featureScoreMaps: FeatureScoreMaps,
+  selectedFeatures: SelectedFeature[] = [],
+  userPriority: Priority = 'Price',
+  scoringProfile: ScoringProfile = DEFAULT_SCORING_PROFILE,
+  priceTrend: PriceTrend | null = null,
+  options: RankingOptions = {},
+  costRatingMaps: CostRatingMaps = {}
+): ProcessedInsuranceProduct => {
+  const { vehicle } = options;
+  const price = getLookupPrice(product, priceLookup);
+
+  // Usage-priced policies cost less than their quoted premium for low-km drivers, so their price rating is boosted
+  const usageBasedPricing = getUsageBasedPricing(product);
+  const usageFit = getUsageFit(usageBasedPricing, options.annualKm ?? null, scoringProfile.usageBased);
+  const baseRating = priceRatingMap.get(price) || 1.0;
+  const priceRating = usageFit?.effect === 'boost'
+    ? Math.min(Math.round((baseRating + scoringProfile.usageBased.lowKmBoost) * 10) / 10, 9.9)
+    : baseRating;
+  const annualCost = estimateAnnualCost(product, price, selectedFeatures, scoringProfile.totalCost);
+  const payMonthly = product.PAY_MONTHLY_YES.toLowerCase() === 'yes';
+  const monthlyPayment = payMonthly ? estimateMonthlyPayment(product, price) : null;
+  const benefits = getProductBenefits(product);
+  const newCarReplacementEligible = vehicle
+    ? isNewCarReplacementEligible(benefits.newCarReplacement, getVehicleAge(vehicle.year))
+    : true;
+  
+  // Calculate individual feature scores
+  const featureScores = {} as Record<SelectedFeature, number>;
+  FEATURE_CATALOGUE.forEach(feature => {
+    featureScores[feature.id] = scoreFeature(product, feature, featureScoreMaps, scoringProfile);
+  });
+  const featureCoverage = getProductFeatureCoverage(product);
+
+  // New car replacement is worth nothing to a car older than the policy's limit
+  const hasNewCarReplacement = featureCoverage.NEW_CAR_REPLACEMENT !== 'notCovered';
+  if (hasNewCarReplacement && !newCarReplacementEligible) {
+    featureScores.NEW_CAR_REPLACEMENT = scoringProfile.booleanFeatureScores.notCovered;
+    featureCoverage.NEW_CAR_REPLACEMENT = 'notCovered';
+  }
+  
+  // Calculate weighted average feature score based on selected features
+  const averageFeatureScore = calculateWeightedFeatureScore(featureScores, selectedFeatures, scoringProfile);
+  
+  // Calculate dynamic Finder Score
+  const dynamicFinderScore = calculateDynamicFinderScore(priceRating, averageFeatureScore, userPriority, scoringProfile);
+  
+  return {
+    id: product.ID,
+    name: product.NAME,
+    providerId: product.PROVIDER_ID,
+    price: price,
+    priceRating: priceRating,
+    priceTrend: priceTrend,
+    priceRange: getLookupPriceRange(product, priceLookup),
+    annualCost,
+    annualCostRating: costRatingMaps.annualCost?.get(annualCost.total) || 1.0,
+    monthlyPayment,
+    monthlyEquivalentRating: monthlyPayment ? costRatingMaps.monthlyEquivalent?.get(monthlyPayment.annualEquivalent) || 1.0 : null,
+    usageBasedPricing,
+    usageFit,
+    vehicleFit: vehicle ? {
+      newCarReplacementEligible: hasNewCarReplacement ? newCarReplacementEligible : null,
+      offersRecommendedValueBasis: offersValueBasis(product.AGREED_OR_MARKET_VALUE, getValueBasisRecommendation(vehicle).basis),
+    } : null,
+    priceScore: parseFloat(product.PRICE_SCORE) || 0,
+    coverScore: parseFloat(product.COVER_SCORE) || 0,
+    finderScore: parseFloat(product.FINDER_SCORE) || 0,
+    // Feature sub-scores
+    stormCoverageScore: featureScores.STORM,
+    windscreenCoverageScore: featureScores.WINDSCREEN,
+    personalEffectsCoverageScore: featureScores.PERSONAL_EFFECTS,
+    accidentalDamageCoverageScore: featureScores.ACCIDENTAL_DAMAGE,
+    newCarReplacementScore: featureScores.NEW_CAR_REPLACEMENT,
+    featureScores,
+    featureCoverage,
+    benefits,
+    // Weighted average of feature sub-scores
+    averageFeatureScore: averageFeatureScore,
+    // Dynamic Finder Score based on user priority
+    dynamicFinderScore: dynamicFinderScore,
+    features: getProductFeatures(product, featureCoverage),
+  };
+};
+
+// Filter products based on selected features.
+// Optional add-ons only satisfy a selected feature when includeOptionalCover is set.
+export const filterByFeatures = <T extends Pick<ProcessedInsuranceProduct, 'featureCoverage'>>(
+  products: T[],
+  selectedFeatures: SelectedFeature[],
+  includeOptionalCover: boolean = false
+): T[] => {
+  if (selectedFeatures.length === 0) {
+    return products;
+  }
+
+  return products.filter(product =>
+    selectedFeatures.every(feature => {
+      const coverage = product.featureCoverage[feature];
+      return coverage === 'included' || (includeOptionalCover && coverage === 'optional');
+    })
+  );
+};
+
+// Work that only depends on the product list: the price matrix, the feature score maps and, per
+// price segment, the price lookup, price rating scale and price trends. Ranking many profiles
+// against the same products (e.g. a batch comparison) with one context computes each only once.
+export interface RankingContext {
+  products: InsuranceProduct[];
+  priceMatrix: PriceMatrix;
+  featureScoreMaps: FeatureScoreMaps;
+  segments: Map<string, SegmentPricing>; // Keyed by state, gender, age, price year and 'Other' pricing
+}
+
+export interface SegmentPricing {
+  priceLookup: PriceLookup;
+  priceRatingMap: Map<number, number>;
+  priceTrends: Map<string, PriceTrend>; // By product id
+}
+
+export const createRankingContext = (products: InsuranceProduct[]): RankingContext => ({
+  products,
+  priceMatrix: buildPriceMatrixFromProducts(products),
+  featureScoreMaps: calculateFeatureScores(products),
+  segments: new Map(),
+});
+
+const getSegmentPricing = (
+  context: RankingContext,
+  state: AustralianState,
+  gender: Gender,
+  age: AgeGroup | number,
+  priceYear: number | null,
+  otherGenderPricing: OtherGenderPricing
+): SegmentPricing => {
+  const key = [state, gender, age, priceYear, otherGenderPricing].join('|');
+  const cached = context.segments.get(key);
+  if (cached) {
+    return cached;
+  }
+
+  const priceLookup = getPriceLookup(context.priceMatrix, state, gender, age, priceYear, otherGenderPricing);
+  // All prices for this segment set the rating scale
+  const prices = context.products
+    .map(product => getLookupPrice(product, priceLookup))
+    .filter(price => price > 0);
+  const pricing: SegmentPricing = {
+    priceLookup,
+    priceRatingMap: convertPriceToRating(prices),
+    // Year-over-year movement, when the data has an earlier year for this segment
+    priceTrends: getSegmentPriceTrends(context.products, context.priceMatrix, priceLookup),
+  };
+  context.segments.set(key, pricing);
+  return pricing;
+};
+
+// context must be built from the same products; by default a new one is built for this call
+export const getFilteredAndSortedProducts = (
+  products: InsuranceProduct[],
+  state: AustralianState,
+  gender: Gender,
+  age: AgeGroup | number, // Age group band, or an exact age to interpolate between bands
+  sortBy: 'priceRating' | 'finderScore' = 'priceRating',
+  selectedFeatures: SelectedFeature[] = [],
+  userPriority: Priority = 'Price',
+  scoringProfile: ScoringProfile = DEFAULT_SCORING_PROFILE,
+  options: RankingOptions = {},
+  context: RankingContext = createRankingContext(products)
+): ProcessedInsuranceProduct[] => {
+  if (products.length === 0) {
+    return [];
+  }
+
+  // Find the price columns for this profile (latest year unless one is requested)
+  const { priceLookup, priceRatingMap, priceTrends } = getSegmentPricing(
+    context,
+    state,
+    gender,
+    age,
+    options.priceYear ?? context.priceMatrix.latestYear,
+    scoringProfile.otherGenderPricing
+  );
+
+  // Same scale for the estimated annual cost (premium + selected add-ons + expected excess),
+  // and for the yearly cost of paying monthly among products that allow it
+  const pricedProducts = products
+    .map(product => ({ product, premium: getLookupPrice(product, priceLookup) }))
+    .filter(({ premium }) => premium > 0);
+  const costRatingMaps: CostRatingMaps = {
+    annualCost: convertPriceToRating(pricedProducts
+      .map(({ product, premium }) => estimateAnnualCost(product, premium, selectedFeatures, scoringProfile.totalCost).total)),
+    monthlyEquivalent: convertPriceToRating(pricedProducts
+      .filter(({ product }) => product.PAY_MONTHLY_YES.toLowerCase() === 'yes')
+      .map(({ product, premium }) => estimateMonthlyPayment(product, premium).annualEquivalent)),
+  };
+  
+  let processedProducts = products
+    .map(product => processInsuranceProduct(product, priceLookup, priceRatingMap, context.featureScoreMaps, selectedFeatures, userPriority, scoringProfile, priceTrends.get(product.ID) ?? null, options, costRatingMaps))
+    .filter(product => product.price > 0) // Filter out products with no price data
+    .filter(product => product.usageFit?.effect !== 'exclude') // e.g. low-km policies for high-km drivers
+    .filter(product => options.paymentFrequency !== 'Monthly' || product.features.payMonthly);
+
+  // Apply feature filtering
+  processedProducts = filterByFeatures(processedProducts, selectedFeatures, options.includeOptionalCover);
+  
+  // Sort by the specified criteria
+  if (sortBy === 'priceRating') {
+    return processedProducts.sort((a, b) => b.priceRating - a.priceRating); // Higher rating first
+  } else {
+    return processedProducts.sort((a, b) => b.finderScore - a.finderScore);
+  }
+};
+
+// Rank products for a completed quiz; price-first profiles don't filter by features.
+// Shared by the quiz and the server-rendered comparison page so a shared link shows the same results.
+export const getQuizResults = (
+  products: InsuranceProduct[],
+  quizData: QuizData,
+  scoringProfile: ScoringProfile = DEFAULT_SCORING_PROFILE
+): ProcessedInsuranceProduct[] => {
+  if (!quizData.state || (quizData.age === null && !quizData.ageGroup) || !quizData.gender || !quizData.priority) {
+    return [];
+  }
+
+  return getFilteredAndSortedProducts(
+    products,
+    quizData.state,
+    quizData.gender,
+    quizData.age ?? quizData.ageGroup!,
+    quizData.priority === 'Price' ? 'priceRating' : 'finderScore',
+    quizData.priority === 'Features' ? quizData.selectedFeatures : [],
+    quizData.priority,
+    scoringProfile,
+    {
+      includeOptionalCover: quizData.includeOptionalCover,
+      postcode: quizData.postcode ?? undefined,
+      vehicle: quizData.vehicle ?? undefined,
+      annualKm: quizData.annualKm ?? undefined,
+      paymentFrequency: quizData.paymentFrequency,
+    }
+  );
+};
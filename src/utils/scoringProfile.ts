@@ -0,0 +1,126 @@
+import { Priority, ScoringProfile, OtherGenderPricing } from '../types';
+import scoringProfileJson from '../../public/scoring-profile.json';
+
+const PRIORITIES: Priority[] = ['Price', 'Features'];
+const OTHER_GENDER_PRICING: OtherGenderPricing[] = ['midpoint', 'lower', 'upper', 'female'];
+const WEIGHT_TOLERANCE = 0.001;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isWeight = (value: unknown): value is number =>
+  typeof value === 'number' && value >= 0 && value <= 1;
+
+const isPositiveNumber = (value: unknown): value is number =>
+  typeof value === 'number' && value > 0;
+
+const isAmount = (value: unknown): value is number =>
+  typeof value === 'number' && value >= 0;
+
+// Validate an untrusted scoring profile (e.g. parsed JSON) and return it typed.
+// Throws an Error listing every problem found.
+export const validateScoringProfile = (raw: unknown): ScoringProfile => {
+  const problems: string[] = [];
+
+  if (!isObject(raw)) {
+    throw new Error('Invalid scoring profile: expected a JSON object');
+  }
+
+  if (typeof raw.version !== 'string' || raw.version.trim() === '') {
+    problems.push('version must be a non-empty string');
+  }
+
+  const dynamic = raw.dynamicFinderScore;
+  if (!isObject(dynamic)) {
+    problems.push('dynamicFinderScore must be an object');
+  } else {
+    PRIORITIES.forEach(priority => {
+      const split = dynamic[priority];
+      if (!isObject(split) || !isWeight(split.priceWeight) || !isWeight(split.featureWeight)) {
+        problems.push(`dynamicFinderScore.${priority} must have priceWeight and featureWeight between 0 and 1`);
+      } else if (Math.abs(split.priceWeight + split.featureWeight - 1) > WEIGHT_TOLERANCE) {
+        problems.push(`dynamicFinderScore.${priority} weights must add up to 1`);
+      }
+    });
+  }
+
+  const tiers = raw.selectedFeatureWeights;
+  if (!isObject(tiers)) {
+    problems.push('selectedFeatureWeights must be an object');
+  } else {
+    Object.entries(tiers).forEach(([count, tier]) => {
+      const selectedCount = Number(count);
+      if (!Number.isInteger(selectedCount) || selectedCount < 1) {
+        problems.push(`selectedFeatureWeights key "${count}" must be a positive integer`);
+        return;
+      }
+      if (!isObject(tier) || !isWeight(tier.selected) || !isWeight(tier.remaining)) {
+        problems.push(`selectedFeatureWeights.${count} must have selected and remaining weights between 0 and 1`);
+        return;
+      }
+      if (Math.abs(tier.selected * selectedCount + tier.remaining - 1) > WEIGHT_TOLERANCE) {
+        problems.push(`selectedFeatureWeights.${count} weights must add up to 1`);
+      }
+    });
+  }
+
+  const booleanScores = raw.booleanFeatureScores;
+  if (
+    !isObject(booleanScores)
+    || typeof booleanScores.covered !== 'number'
+    || typeof booleanScores.optional !== 'number'
+    || typeof booleanScores.notCovered !== 'number'
+  ) {
+    problems.push('booleanFeatureScores must have numeric covered, optional and notCovered scores');
+  }
+
+  if (!OTHER_GENDER_PRICING.includes(raw.otherGenderPricing as OtherGenderPricing)) {
+    problems.push(`otherGenderPricing must be one of: ${OTHER_GENDER_PRICING.join(', ')}`);
+  }
+
+  const usageBased = raw.usageBased;
+  if (
+    !isObject(usageBased)
+    || !isPositiveNumber(usageBased.lowKmThreshold)
+    || !isPositiveNumber(usageBased.highKmThreshold)
+    || !isPositiveNumber(usageBased.kmLimitedMaxKm)
+    || typeof usageBased.lowKmBoost !== 'number'
+  ) {
+    problems.push('usageBased must have positive lowKmThreshold, highKmThreshold and kmLimitedMaxKm, and a numeric lowKmBoost');
+  } else if (usageBased.lowKmThreshold > usageBased.highKmThreshold) {
+    problems.push('usageBased.lowKmThreshold must not be above highKmThreshold');
+  }
+
+  const totalCost = raw.totalCost;
+  if (
+    !isObject(totalCost)
+    || !isAmount(totalCost.standardExcess)
+    || !isAmount(totalCost.reducedWindscreenExcess)
+    || !isAmount(totalCost.accidentClaimsPerYear)
+    || !isAmount(totalCost.windscreenClaimsPerYear)
+    || !isAmount(totalCost.defaultAddOnCost)
+  ) {
+    problems.push('totalCost must have non-negative standardExcess, reducedWindscreenExcess, accidentClaimsPerYear, windscreenClaimsPerYear and defaultAddOnCost');
+  } else if (!isObject(totalCost.addOnCosts) || !Object.values(totalCost.addOnCosts).every(isAmount)) {
+    problems.push('totalCost.addOnCosts must map feature ids to non-negative yearly costs');
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid scoring profile: ${problems.join('; ')}`);
+  }
+
+  return raw as unknown as ScoringProfile;
+};
+
+// The weights bundled with the app: public/scoring-profile.json, the same file the API server loads
+export const DEFAULT_SCORING_PROFILE: ScoringProfile = validateScoringProfile(scoringProfileJson);
+
+// The profile currently served. A missing or invalid file is an error, as on the server:
+// we never rank with weights that may differ from the API's.
+export const loadScoringProfile = async (): Promise<ScoringProfile> => {
+  const response = await fetch('/scoring-profile.json');
+  if (!response.ok) {
+    throw new Error(`Failed to load scoring profile: HTTP ${response.status}`);
+  }
+  return validateScoringProfile(await response.json());
+};
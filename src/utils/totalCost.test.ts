@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { InsuranceProduct, ScoringProfile } from '../types';
+import { estimateAnnualCost, getAddOnCost, getWindscreenExcess } from './totalCost';
+
+const CONFIG: ScoringProfile['totalCost'] = {
+  standardExcess: 800,
+  reducedWindscreenExcess: 100,
+  accidentClaimsPerYear: 0.08,
+  windscreenClaimsPerYear: 0.1,
+  addOnCosts: { WINDSCREEN: 60 },
+  defaultAddOnCost: 50,
+};
+
+const product = (columns: Partial<InsuranceProduct>) => columns as InsuranceProduct;
+
+describe('getWindscreenExcess', () => {
+  it('charges nothing with no-excess windscreen cover', () => {
+    expect(getWindscreenExcess(product({ NO_EXCESS_WINDSCREEN: 'Yes', REDUCED_EXCESS_WINDSCREEN: 'Yes' }), CONFIG)).toBe(0);
+  });
+
+  it('charges the reduced excess when the policy includes it', () => {
+    expect(getWindscreenExcess(product({ NO_EXCESS_WINDSCREEN: 'No', REDUCED_EXCESS_WINDSCREEN: ' yes ' }), CONFIG)).toBe(100);
+  });
+
+  it('charges the standard excess otherwise, including for optional cover', () => {
+    expect(getWindscreenExcess(product({ NO_EXCESS_WINDSCREEN: 'Optional', REDUCED_EXCESS_WINDSCREEN: '' }), CONFIG)).toBe(800);
+  });
+});
+
+describe('getAddOnCost', () => {
+  it('only counts selected features the policy offers as optional add-ons', () => {
+    const policy = product({ STORM: 'Yes', WINDSCREEN: 'Optional', PERSONAL_EFFECTS: 'No' });
+
+    expect(getAddOnCost(policy, ['STORM', 'WINDSCREEN', 'PERSONAL_EFFECTS'], CONFIG)).toBe(60);
+  });
+
+  it('uses the listed roadside assistance cost, falling back to the default estimate', () => {
+    expect(getAddOnCost(product({ ROADSIDE_ASSISTANCE: 'Optional', ROADSIDE_ASSISTANCE_COST: '99' }), ['ROADSIDE_ASSISTANCE'], CONFIG)).toBe(99);
+    expect(getAddOnCost(product({ ROADSIDE_ASSISTANCE: 'Optional', ROADSIDE_ASSISTANCE_COST: '' }), ['ROADSIDE_ASSISTANCE'], CONFIG)).toBe(50);
+  });
+});
+
+describe('estimateAnnualCost', () => {
+  it('adds add-ons and expected excess to the premium, rounded to cents', () => {
+    const policy = product({ WINDSCREEN: 'Optional', REDUCED_EXCESS_WINDSCREEN: 'Yes' });
+
+    // 0.08 x $800 accident excess + 0.1 x $100 windscreen excess
+    expect(estimateAnnualCost(policy, 1000.5, ['WINDSCREEN'], CONFIG)).toEqual({
+      premium: 1000.5,
+      addOns: 60,
+      expectedExcess: 74,
+      total: 1134.5,
+    });
+  });
+});
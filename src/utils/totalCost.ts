@@ -0,0 +1,50 @@
+import { AnnualCostEstimate, InsuranceProduct, ScoringProfile, SelectedFeature } from '../types';
+import { getFeatureCoverage, getFeatureDefinition } from './featureCatalogue';
+import { getProductPrice } from './priceMatrix';
+
+// Estimated yearly cost of owning a policy, beyond its base premium:
+//   premium + add-ons the user selected that the policy only offers at extra cost
+//           + expected excess (claims per year x the excess the policy would charge)
+// The CSV has no excess amounts, so those come from the scoring profile's totalCost section;
+// only windscreen excess differs between products (NO_EXCESS_WINDSCREEN / REDUCED_EXCESS_WINDSCREEN).
+
+type TotalCostConfig = ScoringProfile['totalCost'];
+
+const isYes = (value: string | undefined): boolean => (value || '').trim().toLowerCase() === 'yes';
+
+// Excess for a windscreen claim. Optional no-excess / reduced-excess cover isn't assumed to be bought.
+export const getWindscreenExcess = (product: InsuranceProduct, config: TotalCostConfig): number => {
+  if (isYes(product.NO_EXCESS_WINDSCREEN)) return 0;
+  if (isYes(product.REDUCED_EXCESS_WINDSCREEN)) return config.reducedWindscreenExcess;
+  return config.standardExcess;
+};
+
+// Yearly cost of selected features the policy only offers as paid add-ons.
+// Roadside assistance has a listed cost; other add-ons use the configured estimates.
+export const getAddOnCost = (product: InsuranceProduct, selectedFeatures: SelectedFeature[], config: TotalCostConfig): number =>
+  selectedFeatures
+    .filter(feature => getFeatureCoverage(product, getFeatureDefinition(feature)) === 'optional')
+    .reduce((sum, feature) => {
+      const listedCost = feature === 'ROADSIDE_ASSISTANCE' ? getProductPrice(product, 'ROADSIDE_ASSISTANCE_COST') : 0;
+      return sum + (listedCost || (config.addOnCosts[feature] ?? config.defaultAddOnCost));
+    }, 0);
+
+const roundToCents = (amount: number): number => Math.round(amount * 100) / 100;
+
+export const estimateAnnualCost = (
+  product: InsuranceProduct,
+  premium: number,
+  selectedFeatures: SelectedFeature[],
+  config: TotalCostConfig
+): AnnualCostEstimate => {
+  const addOns = getAddOnCost(product, selectedFeatures, config);
+  const expectedExcess = config.accidentClaimsPerYear * config.standardExcess
+    + config.windscreenClaimsPerYear * getWindscreenExcess(product, config);
+
+  return {
+    premium,
+    addOns: roundToCents(addOns),
+    expectedExcess: roundToCents(expectedExcess),
+    total: roundToCents(premium + addOns + expectedExcess),
+  };
+};
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { InsuranceProduct, ScoringProfile } from '../types';
+import { getUsageBasedPricing, getUsageFit } from './usage';
+
+const CONFIG: ScoringProfile['usageBased'] = { lowKmThreshold: 5000, highKmThreshold: 20000, kmLimitedMaxKm: 10000, lowKmBoost: 5 };
+
+const named = (NAME: string) => ({ NAME }) as InsuranceProduct;
+
+describe('getUsageBasedPricing', () => {
+  it.each([
+    ['Real Pay As You Drive', 'payAsYouDrive'],
+    ['Everyday Drive Less Pay Less', 'payAsYouDrive'],
+    ['Example Pay Per Km Cover', 'payAsYouDrive'],
+    ['Budget Direct Gold Low Kilometres', 'kmLimited'],
+    ['Example Low Kms Comprehensive', 'kmLimited'],
+  ])('recognises %s as %s', (name, pricing) => {
+    expect(getUsageBasedPricing(named(name))).toBe(pricing);
+  });
+
+  it('leaves standard and unlimited-kilometre policies alone', () => {
+    expect(getUsageBasedPricing(named('ahm Comprehensive Unlimited Kilometres'))).toBeNull();
+    expect(getUsageBasedPricing(named('Coles Comprehensive'))).toBeNull();
+  });
+});
+
+describe('getUsageFit', () => {
+  it('makes no difference without a usage-based policy or annual km', () => {
+    expect(getUsageFit(null, 3000, CONFIG)).toBeNull();
+    expect(getUsageFit('payAsYouDrive', null, CONFIG)).toBeNull();
+  });
+
+  it('boosts usage-based policies for low-km drivers, up to the threshold', () => {
+    expect(getUsageFit('payAsYouDrive', 5000, CONFIG)).toEqual({
+      effect: 'boost',
+      reason: 'Priced on distance driven, which suits your 5,000 km a year',
+    });
+    expect(getUsageFit('kmLimited', 3000, CONFIG)?.effect).toBe('boost');
+  });
+
+  it('excludes low-km policies above their km limit', () => {
+    expect(getUsageFit('kmLimited', 10000, CONFIG)).toBeNull();
+    expect(getUsageFit('kmLimited', 10001, CONFIG)).toEqual({
+      effect: 'exclude',
+      reason: 'Low-kilometre policy for up to about 10,000 km a year; you drive 10,001 km',
+    });
+  });
+
+  it('flags pay-as-you-drive policies above the high-km threshold', () => {
+    expect(getUsageFit('payAsYouDrive', 20000, CONFIG)).toBeNull();
+    expect(getUsageFit('payAsYouDrive', 25000, CONFIG)?.effect).toBe('flag');
+    expect(getUsageFit('kmLimited', 8000, CONFIG)).toBeNull();
+  });
+});
@@ -0,0 +1,48 @@
+import { InsuranceProduct, ScoringProfile, UsageBasedPricing, UsageFit } from '../types';
+
+// Usage-based policies aren't marked in the CSV, so they are recognised by name, e.g.
+//   "Real Pay As You Drive", "Everyday Drive Less Pay Less"  →  payAsYouDrive
+//   "Budget Direct Gold Low Kilometres"                      →  kmLimited
+// ("ahm Comprehensive Unlimited Kilometres" is deliberately not matched.)
+const USAGE_BASED_NAME_PATTERNS: { pattern: RegExp; pricing: UsageBasedPricing }[] = [
+  { pattern: /pay\s+as\s+you\s+drive|drive\s+less\s*,?\s+pay\s+less|pay\s+(?:per|by\s+the)\s+(?:km|kilomet)/i, pricing: 'payAsYouDrive' },
+  { pattern: /\blow\s+(?:km|kms|kilomet)/i, pricing: 'kmLimited' },
+];
+
+export const getUsageBasedPricing = (product: InsuranceProduct): UsageBasedPricing | null =>
+  USAGE_BASED_NAME_PATTERNS.find(({ pattern }) => pattern.test(product.NAME))?.pricing ?? null;
+
+const formatKm = (km: number): string => `${km.toLocaleString('en-AU')} km`;
+
+// How a usage-based policy suits a driver; null when the distance makes no difference
+export const getUsageFit = (
+  pricing: UsageBasedPricing | null,
+  annualKm: number | null,
+  config: ScoringProfile['usageBased']
+): UsageFit | null => {
+  if (!pricing || annualKm === null) {
+    return null;
+  }
+
+  if (pricing === 'kmLimited' && annualKm > config.kmLimitedMaxKm) {
+    return {
+      effect: 'exclude',
+      reason: `Low-kilometre policy for up to about ${formatKm(config.kmLimitedMaxKm)} a year; you drive ${formatKm(annualKm)}`,
+    };
+  }
+  if (annualKm <= config.lowKmThreshold) {
+    return {
+      effect: 'boost',
+      reason: pricing === 'payAsYouDrive'
+        ? `Priced on distance driven, which suits your ${formatKm(annualKm)} a year`
+        : `Discounted for low-kilometre drivers like you (${formatKm(annualKm)} a year)`,
+    };
+  }
+  if (pricing === 'payAsYouDrive' && annualKm > config.highKmThreshold) {
+    return {
+      effect: 'flag',
+      reason: `Priced per kilometre, so at ${formatKm(annualKm)} a year it's likely to cost more than a standard policy`,
+    };
+  }
+  return null;
+};
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { EMPTY_BENEFIT_DETAILS } from './benefitParser';
+import { getValueBasisRecommendation, getVehicleAge, isNewCarReplacementEligible, offersValueBasis } from './vehicle';
+import { findVehicleModel, getVehicleModelYears } from './vehicleCatalogue';
+
+const TODAY = new Date('2026-06-01');
+
+const vehicle = (year: number, value: number | null = null) => ({ make: 'Toyota', model: 'Corolla', year, value });
+
+describe('getVehicleAge', () => {
+  it('counts years since the model year, never below 0', () => {
+    expect(getVehicleAge(2020, TODAY)).toBe(6);
+    expect(getVehicleAge(2027, TODAY)).toBe(0);
+  });
+});
+
+describe('isNewCarReplacementEligible', () => {
+  it('allows cars up to the year limit, including the model year it ends in', () => {
+    const twoYears = { ...EMPTY_BENEFIT_DETAILS, yearLimit: 2 };
+    expect(isNewCarReplacementEligible(twoYears, 2)).toBe(true);
+    expect(isNewCarReplacementEligible(twoYears, 3)).toBe(false);
+  });
+
+  it('gives policies without a stated limit the benefit of the doubt', () => {
+    expect(isNewCarReplacementEligible(EMPTY_BENEFIT_DETAILS, 10)).toBe(true);
+  });
+});
+
+describe('getValueBasisRecommendation', () => {
+  it('recommends agreed value for new, high-value and older cars', () => {
+    expect(getValueBasisRecommendation(vehicle(2025), TODAY).basis).toBe('Agreed');
+    expect(getValueBasisRecommendation(vehicle(2018, 60000), TODAY).basis).toBe('Agreed');
+    expect(getValueBasisRecommendation(vehicle(2001), TODAY).basis).toBe('Agreed');
+  });
+
+  it('recommends market value otherwise, including when the value is unknown', () => {
+    expect(getValueBasisRecommendation(vehicle(2018, 59999), TODAY).basis).toBe('Market');
+    expect(getValueBasisRecommendation(vehicle(2018), TODAY).basis).toBe('Market');
+  });
+});
+
+describe('offersValueBasis', () => {
+  it('reads the AGREED_OR_MARKET_VALUE cell', () => {
+    expect(offersValueBasis('Agreed or Market', 'Agreed')).toBe(true);
+    expect(offersValueBasis('Agreed or Market', 'Market')).toBe(true);
+    expect(offersValueBasis('Market', 'Agreed')).toBe(false);
+  });
+});
+
+describe('vehicle catalogue', () => {
+  it('finds models by make and name, ignoring case and spaces', () => {
+    expect(findVehicleModel(' ford ', 'RANGER')?.name).toBe('Ranger');
+    expect(findVehicleModel('Ford', 'Model T')).toBeNull();
+  });
+
+  it('lists model years newest first, from next year for models still on sale', () => {
+    expect(getVehicleModelYears({ name: 'Ranger', firstYear: 2024, lastYear: null }, TODAY)).toEqual([2027, 2026, 2025, 2024]);
+    expect(getVehicleModelYears({ name: 'Falcon', firstYear: 1985, lastYear: 1991 }, TODAY)).toEqual([1991, 1990]);
+  });
+});
@@ -0,0 +1,50 @@
+import { BenefitDetails, ValueBasis, ValueBasisRecommendation, VehicleDetails } from '../types';
+
+// Vehicle-dependent eligibility and advice.
+// Ages are by model year, which only approximates the first registration date.
+
+// Cars this new, or worth this much, are better off with an agreed value
+const NEW_CAR_MAX_AGE_YEARS = 2;
+const HIGH_VALUE_THRESHOLD = 60000;
+// Market value of cars this old is hard to establish at claim time
+const OLDER_CAR_MIN_AGE_YEARS = 25;
+
+export const getVehicleAge = (modelYear: number, today: Date = new Date()): number =>
+  Math.max(today.getFullYear() - modelYear, 0);
+
+// Whether a car is young enough for a policy's new car replacement ("in the first 2 years").
+// Policies that don't state a limit are given the benefit of the doubt. A car is treated as
+// eligible through the model year its limit ends in, since we don't know the registration date.
+export const isNewCarReplacementEligible = (details: BenefitDetails, vehicleAge: number): boolean =>
+  details.yearLimit === null || vehicleAge <= details.yearLimit;
+
+export const getValueBasisRecommendation = (vehicle: VehicleDetails, today: Date = new Date()): ValueBasisRecommendation => {
+  const age = getVehicleAge(vehicle.year, today);
+
+  if (age <= NEW_CAR_MAX_AGE_YEARS) {
+    return {
+      basis: 'Agreed',
+      reason: 'New cars lose value quickly, so an agreed value protects what you paid if the car is written off.',
+    };
+  }
+  if (vehicle.value !== null && vehicle.value >= HIGH_VALUE_THRESHOLD) {
+    return {
+      basis: 'Agreed',
+      reason: 'For a high-value car, an agreed value gives you certainty about the payout.',
+    };
+  }
+  if (age >= OLDER_CAR_MIN_AGE_YEARS) {
+    return {
+      basis: 'Agreed',
+      reason: 'Older cars are hard to value at claim time, so agreeing a value up front avoids disputes.',
+    };
+  }
+  return {
+    basis: 'Market',
+    reason: 'Market value cover tracks what your car is worth today and is usually the cheaper choice.',
+  };
+};
+
+// Whether a policy's AGREED_OR_MARKET_VALUE cell ("Agreed", "Market", "Agreed or Market") allows a basis
+export const offersValueBasis = (agreedOrMarketValue: string, basis: ValueBasis): boolean =>
+  agreedOrMarketValue.toLowerCase().includes(basis.toLowerCase());
@@ -0,0 +1,130 @@
+// Bundled make / model / year list for the quiz's vehicle step.
+// Covers the most common passenger cars in Australia; no network lookup is needed.
+
+export interface VehicleModel {
+  name: string;
+  firstYear: number;
+  lastYear: number | null; // null = still on sale
+}
+
+export interface VehicleMake {
+  make: string;
+  models: VehicleModel[];
+}
+
+// Oldest model year the quiz offers
+export const OLDEST_VEHICLE_YEAR = 1990;
+
+export const VEHICLE_CATALOGUE: VehicleMake[] = [
+  {
+    make: 'Ford',
+    models: [
+      { name: 'Everest', firstYear: 2015, lastYear: null },
+      { name: 'Falcon', firstYear: 1990, lastYear: 2016 },
+      { name: 'Focus', firstYear: 2002, lastYear: 2020 },
+      { name: 'Ranger', firstYear: 2006, lastYear: null },
+    ],
+  },
+  {
+    make: 'Holden',
+    models: [
+      { name: 'Colorado', firstYear: 2008, lastYear: 2020 },
+      { name: 'Commodore', firstYear: 1990, lastYear: 2020 },
+      { name: 'Cruze', firstYear: 2009, lastYear: 2016 },
+    ],
+  },
+  {
+    make: 'Honda',
+    models: [
+      { name: 'Civic', firstYear: 1990, lastYear: null },
+      { name: 'CR-V', firstYear: 1997, lastYear: null },
+      { name: 'Jazz', firstYear: 2002, lastYear: 2020 },
+    ],
+  },
+  {
+    make: 'Hyundai',
+    models: [
+      { name: 'i30', firstYear: 2007, lastYear: null },
+      { name: 'Kona', firstYear: 2017, lastYear: null },
+      { name: 'Tucson', firstYear: 2004, lastYear: null },
+    ],
+  },
+  {
+    make: 'Kia',
+    models: [
+      { name: 'Cerato', firstYear: 2004, lastYear: null },
+      { name: 'Sportage', firstYear: 1995, lastYear: null },
+      { name: 'Picanto', firstYear: 2004, lastYear: null },
+    ],
+  },
+  {
+    make: 'Mazda',
+    models: [
+      { name: 'BT-50', firstYear: 2006, lastYear: null },
+      { name: 'CX-5', firstYear: 2012, lastYear: null },
+      { name: 'Mazda2', firstYear: 2002, lastYear: null },
+      { name: 'Mazda3', firstYear: 2003, lastYear: null },
+    ],
+  },
+  {
+    make: 'Mitsubishi',
+    models: [
+      { name: 'ASX', firstYear: 2010, lastYear: null },
+      { name: 'Outlander', firstYear: 2003, lastYear: null },
+      { name: 'Triton', firstYear: 1990, lastYear: null },
+    ],
+  },
+  {
+    make: 'Nissan',
+    models: [
+      { name: 'Navara', firstYear: 1990, lastYear: null },
+      { name: 'Qashqai', firstYear: 2014, lastYear: null },
+      { name: 'X-Trail', firstYear: 2001, lastYear: null },
+    ],
+  },
+  {
+    make: 'Subaru',
+    models: [
+      { name: 'Forester', firstYear: 1997, lastYear: null },
+      { name: 'Impreza', firstYear: 1993, lastYear: null },
+      { name: 'Outback', firstYear: 1996, lastYear: null },
+    ],
+  },
+  {
+    make: 'Tesla',
+    models: [
+      { name: 'Model 3', firstYear: 2019, lastYear: null },
+      { name: 'Model Y', firstYear: 2022, lastYear: null },
+    ],
+  },
+  {
+    make: 'Toyota',
+    models: [
+      { name: 'Camry', firstYear: 1990, lastYear: null },
+      { name: 'Corolla', firstYear: 1990, lastYear: null },
+      { name: 'HiLux', firstYear: 1990, lastYear: null },
+      { name: 'LandCruiser', firstYear: 1990, lastYear: null },
+      { name: 'RAV4', firstYear: 1994, lastYear: null },
+    ],
+  },
+  {
+    make: 'Volkswagen',
+    models: [
+      { name: 'Amarok', firstYear: 2011, lastYear: null },
+      { name: 'Golf', firstYear: 1990, lastYear: null },
+      { name: 'Tiguan', firstYear: 2008, lastYear: null },
+    ],
+  },
+];
+
+export const findVehicleModel = (make: string, model: string): VehicleModel | null =>
+  VEHICLE_CATALOGUE
+    .find(entry => entry.make.toLowerCase() === make.trim().toLowerCase())
+    ?.models.find(entry => entry.name.toLowerCase() === model.trim().toLowerCase()) ?? null;
+
+// Model years a model was sold in, newest first
+export const getVehicleModelYears = (model: VehicleModel, today: Date = new Date()): number[] => {
+  const lastYear = model.lastYear ?? today.getFullYear() + 1; // Next year's models go on sale early
+  const firstYear = Math.max(model.firstYear, OLDEST_VEHICLE_YEAR);
+  return Array.from({ length: Math.max(lastYear - firstYear + 1, 0) }, (_, index) => lastYear - index);
+};
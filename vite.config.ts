@@ -1,6 +1,30 @@
-import { defineConfig } from 'vite'
+import { defineConfig, Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
+import { PROVIDER_LOGOS_FILE, getProviderLogoUrls } from './server/utils/providerLogos'
 
-export default defineConfig({
-  plugins: [react()],
-}) 
\ No newline at end of file
+// The quiz's provider logos as a static file, so the app doesn't need the API server for them:
+// served fresh from public/logos in development, written into dist/ by the build
+const providerLogos = (): Plugin => ({
+  name: 'provider-logos',
+  apply: (_config, { isSsrBuild }) => !isSsrBuild,
+  configureServer(server) {
+    server.middlewares.use(`/${PROVIDER_LOGOS_FILE}`, (_req, res, next) => {
+      getProviderLogoUrls()
+        .then(logoUrls => {
+          res.setHeader('Content-Type', 'application/json')
+          res.end(JSON.stringify(logoUrls))
+        })
+        .catch(next)
+    })
+  },
+  async generateBundle() {
+    this.emitFile({ type: 'asset', fileName: PROVIDER_LOGOS_FILE, source: JSON.stringify(await getProviderLogoUrls()) })
+  },
+})
+
+export default defineConfig(({ isSsrBuild }) => ({
+  plugins: [react(), providerLogos()],
+  // The server-render bundle (npm run build:ssr) is loaded by the CommonJS server.js,
+  // so it gets an .mjs name to be treated as an ES module
+  build: isSsrBuild ? { rollupOptions: { output: { entryFileNames: '[name].mjs' } } } : {},
+}))